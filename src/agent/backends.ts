@@ -0,0 +1,18 @@
+import { CodexBridge, type CodexBridgeOptions } from "../codex/bridge.ts";
+import type { BotConfig } from "../config.ts";
+import { SessionStore } from "../session/store.ts";
+import { CommandTemplateBackend } from "./command-template-backend.ts";
+import type { AgentBackend } from "./types.ts";
+
+export function createAgentBackends(
+  config: BotConfig,
+  store: SessionStore,
+  codexOptions: CodexBridgeOptions = {},
+): AgentBackend[] {
+  return [
+    new CodexBridge(store, codexOptions),
+    ...Object.entries(config.agentBackends).map(
+      ([name, backendConfig]) => new CommandTemplateBackend(name, backendConfig, store),
+    ),
+  ];
+}
@@ -0,0 +1,653 @@
+import { resolve } from "node:path";
+import { AuditLog } from "../audit/log.ts";
+import { SessionCheckpoints } from "../git/checkpoints.ts";
+import { SessionStore } from "../session/store.ts";
+import type { SessionRecord } from "../session/types.ts";
+import { UsageLedger } from "../usage/ledger.ts";
+import {
+  DEFAULT_AGENT_BACKEND,
+  type AgentBackend,
+  type AgentContextWindow,
+  type AgentHistoryTurn,
+  type AgentProcessOutcome,
+  type AgentRateLimits,
+  type AgentTranscriptEntry,
+  type AgentTurnProgress,
+  type AgentTurnRequest,
+  type AgentTurnResult,
+} from "./types.ts";
+import { TurnSlotPool, type TurnSlotLimits } from "./turn-slots.ts";
+import { resolveWorkingDirectory } from "./working-directory.ts";
+
+const RATE_LIMIT_RESUME_GRACE_MS = 30_000;
+const RATE_LIMIT_FALLBACK_HOLD_MS = 15 * 60_000;
+
+export interface SendMessageOptions {
+  includeRateLimits?: boolean;
+  interactiveSession?: boolean;
+  requester: TurnRequester;
+  imagePaths?: string[];
+  onQueued?: (position: number) => void;
+  onWaitingForSlot?: (position: number) => void;
+  // Prompts are only held for callers that pass this; others fail with RateLimitExceededError.
+  onRateLimited?: (resumeAtMs: number) => void;
+  onStart?: () => void;
+  onAutoCompact?: (outcome: AutoCompactOutcome) => void;
+  onProgress?: (progress: AgentTurnProgress) => void;
+}
+
+export interface AutoCompactOutcome {
+  percentLeftBefore: number;
+  contextWindow?: AgentContextWindow;
+  error?: string;
+}
+
+export interface TurnRequester {
+  userId: string;
+  messageUrl?: string;
+}
+
+export interface QueuedTurnInfo {
+  position: number;
+  requester: TurnRequester;
+  enqueuedAt: string;
+  waitingForSlot?: boolean;
+  autoCompact?: boolean;
+}
+
+export interface SessionQueueSnapshot {
+  running?: QueuedTurnInfo;
+  queued: QueuedTurnInfo[];
+}
+
+export interface AgentBridgeOptions extends TurnSlotLimits {
+  usageLedger?: UsageLedger;
+  checkpoints?: SessionCheckpoints;
+  auditLog?: AuditLog;
+}
+
+export interface CancelTurnOptions {
+  dropQueued?: boolean;
+  reason?: string;
+}
+
+export interface CancelTurnResult {
+  cancelledActive: boolean;
+  droppedQueued: number;
+}
+
+interface SessionTurnEntry {
+  controller: AbortController;
+  started: boolean;
+  waitingForSlot: boolean;
+  requester: TurnRequester;
+  enqueuedAt: string;
+  autoCompact?: boolean;
+  afterRun?: () => Promise<void>;
+}
+
+export class TurnCancelledError extends Error {
+  constructor(message = "Turn cancelled.") {
+    super(message);
+    this.name = "TurnCancelledError";
+  }
+}
+
+// A turn whose agent process failed, with how it exited.
+export class AgentProcessError extends Error {
+  readonly process?: AgentProcessOutcome;
+
+  constructor(message: string, process?: AgentProcessOutcome) {
+    super(message);
+    this.name = "AgentProcessError";
+    this.process = process;
+  }
+}
+
+export class RateLimitExceededError extends AgentProcessError {
+  // Epoch seconds at which the exhausted window resets, when the backend reported it.
+  readonly resetsAt?: number;
+  readonly rateLimits?: AgentRateLimits;
+
+  constructor(
+    message: string,
+    resetsAt?: number,
+    rateLimits?: AgentRateLimits,
+    process?: AgentProcessOutcome,
+  ) {
+    super(message, process);
+    this.name = "RateLimitExceededError";
+    this.resetsAt = resetsAt;
+    this.rateLimits = rateLimits;
+  }
+}
+
+export class AgentBridge {
+  private readonly store: SessionStore;
+  private readonly backends = new Map<string, AgentBackend>();
+  private readonly sessionQueue = new Map<string, Promise<void>>();
+  private readonly sessionTurns = new Map<string, SessionTurnEntry[]>();
+  // Projects whose files a checkpoint restore is rewriting.
+  private readonly restoringProjects = new Set<string>();
+  private readonly turnSlots: TurnSlotPool;
+  private readonly usageLedger?: UsageLedger;
+  private readonly checkpoints?: SessionCheckpoints;
+  private readonly auditLog?: AuditLog;
+
+  constructor(
+    store: SessionStore,
+    backends: readonly AgentBackend[],
+    options: AgentBridgeOptions = {},
+  ) {
+    this.store = store;
+    this.turnSlots = new TurnSlotPool(options);
+    this.usageLedger = options.usageLedger;
+    this.checkpoints = options.checkpoints;
+    this.auditLog = options.auditLog;
+
+    for (const backend of backends) {
+      if (this.backends.has(backend.name)) {
+        throw new Error(`Agent backend "${backend.name}" is registered more than once.`);
+      }
+
+      this.backends.set(backend.name, backend);
+    }
+  }
+
+  listBackendNames(): string[] {
+    return [...this.backends.keys()];
+  }
+
+  hasBackend(name: string): boolean {
+    return this.backends.has(name);
+  }
+
+  async readHistory(session: SessionRecord): Promise<AgentHistoryTurn[]> {
+    const backend = this.resolveBackend(session);
+
+    if (!backend.readHistory) {
+      throw new Error(`Agent backend "${backend.name}" does not keep a readable history.`);
+    }
+
+    return backend.readHistory(session);
+  }
+
+  async readTranscript(session: SessionRecord): Promise<AgentTranscriptEntry[]> {
+    const backend = this.resolveBackend(session);
+
+    if (!backend.readTranscript) {
+      throw new Error(`Agent backend "${backend.name}" does not keep a readable transcript.`);
+    }
+
+    return backend.readTranscript(session);
+  }
+
+  async sendMessage(
+    session: SessionRecord,
+    prompt: string,
+    options: SendMessageOptions,
+  ): Promise<AgentTurnResult> {
+    const trimmedPrompt = prompt.trim();
+
+    if (!trimmedPrompt) {
+      throw new Error("Prompt cannot be empty.");
+    }
+
+    return this.withSessionLock(session.id, options, async (signal, entry) => {
+      if (this.restoringProjects.has(resolve(session.projectPath))) {
+        throw new Error(
+          "The project's files are being restored from a checkpoint. Send the prompt again once that finishes.",
+        );
+      }
+
+      // Interactive commands such as /compact do not edit files, so they get no checkpoint.
+      if (this.checkpoints && !options.interactiveSession) {
+        await this.checkpoints.capture(session, trimmedPrompt).catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`Failed to checkpoint session ${session.id}: ${message}`);
+        });
+      }
+
+      for (;;) {
+        entry.waitingForSlot = true;
+        const releaseSlot = await this.turnSlots
+          .acquire(resolve(session.projectPath), signal, options.onWaitingForSlot)
+          .finally(() => {
+            entry.waitingForSlot = false;
+          });
+        let resumeAtMs: number;
+
+        try {
+          options.onStart?.();
+          const result = await this.runTurn(session, trimmedPrompt, options, signal);
+          const threshold = (await this.store.getSession(session.id))?.autoCompactThreshold;
+
+          if (
+            result.contextWindow &&
+            typeof threshold === "number" &&
+            result.contextWindow.percentLeft < threshold
+          ) {
+            const percentLeftBefore = result.contextWindow.percentLeft;
+            entry.afterRun = () => this.autoCompact(session, percentLeftBefore, options);
+          }
+
+          return result;
+        } catch (error: unknown) {
+          if (!(error instanceof RateLimitExceededError) || !options.onRateLimited) {
+            throw error;
+          }
+
+          resumeAtMs = await this.resolveResumeTime(session, error);
+        } finally {
+          releaseSlot();
+        }
+
+        // The session stays locked while the prompt is held so later prompts keep their order.
+        options.onRateLimited(resumeAtMs);
+        await waitUntil(resumeAtMs, signal);
+      }
+    });
+  }
+
+  cancelTurn(sessionId: string, options: CancelTurnOptions = {}): CancelTurnResult {
+    const entries = this.sessionTurns.get(sessionId) ?? [];
+    const reason = new TurnCancelledError(options.reason);
+    let cancelledActive = false;
+    let droppedQueued = 0;
+
+    for (const entry of entries) {
+      if (entry.controller.signal.aborted) {
+        continue;
+      }
+
+      if (entry.started) {
+        entry.controller.abort(reason);
+        cancelledActive = true;
+        continue;
+      }
+
+      if (options.dropQueued) {
+        entry.controller.abort(reason);
+        droppedQueued += 1;
+      }
+    }
+
+    return {
+      cancelledActive,
+      droppedQueued,
+    };
+  }
+
+  getSessionQueue(sessionId: string): SessionQueueSnapshot {
+    const entries = this.listLiveTurnEntries(sessionId);
+    const running = entries.find((entry) => entry.started);
+    const queued = entries.filter((entry) => !entry.started);
+
+    return {
+      running: running ? toQueuedTurnInfo(running, 0) : undefined,
+      queued: queued.map((entry, index) => toQueuedTurnInfo(entry, index + 1)),
+    };
+  }
+
+  removeQueuedTurn(
+    sessionId: string,
+    position: number,
+    reason?: string,
+  ): QueuedTurnInfo | undefined {
+    const queued = this.listLiveTurnEntries(sessionId).filter((entry) => !entry.started);
+    const entry = queued[position - 1];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    entry.controller.abort(
+      new TurnCancelledError(reason ?? "Removed from the session queue."),
+    );
+
+    return toQueuedTurnInfo(entry, position);
+  }
+
+  // Runs a checkpoint restore as the session's running turn, so it waits for the session's
+  // lock and later prompts queue behind it. Prompts from other sessions on the same
+  // project are refused while it runs instead of editing half-restored files.
+  async runRestore<T>(
+    session: SessionRecord,
+    requester: TurnRequester,
+    restore: () => Promise<T>,
+  ): Promise<T> {
+    const projectPath = resolve(session.projectPath);
+
+    return this.withSessionLock(session.id, { requester }, async () => {
+      this.restoringProjects.add(projectPath);
+
+      try {
+        return await restore();
+      } finally {
+        this.restoringProjects.delete(projectPath);
+      }
+    });
+  }
+
+  // Runs the same interactive /compact turn as the slash command, inside the session lock
+  // so it finishes before the next queued prompt starts. It is the session's running turn
+  // meanwhile, so /cancel, /queue and the busy checks before /undo and /delete see it.
+  private async autoCompact(
+    session: SessionRecord,
+    percentLeftBefore: number,
+    options: Pick<SendMessageOptions, "requester" | "onAutoCompact">,
+  ): Promise<void> {
+    const entry = this.addSessionTurnEntry(session.id, {
+      controller: new AbortController(),
+      started: true,
+      waitingForSlot: true,
+      requester: options.requester,
+      enqueuedAt: new Date().toISOString(),
+      autoCompact: true,
+    });
+    const { signal } = entry.controller;
+
+    try {
+      const releaseSlot = await this.turnSlots
+        .acquire(resolve(session.projectPath), signal)
+        .finally(() => {
+          entry.waitingForSlot = false;
+        });
+
+      try {
+        const result = await this.runTurn(
+          session,
+          "/compact",
+          { interactiveSession: true, requester: options.requester },
+          signal,
+        );
+        options.onAutoCompact?.({
+          percentLeftBefore,
+          contextWindow: result.contextWindow,
+        });
+      } finally {
+        releaseSlot();
+      }
+    } catch (error: unknown) {
+      options.onAutoCompact?.({
+        percentLeftBefore,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.removeSessionTurnEntry(session.id, entry);
+    }
+  }
+
+  private async runTurn(
+    session: SessionRecord,
+    prompt: string,
+    options: SendMessageOptions,
+    signal: AbortSignal,
+  ): Promise<AgentTurnResult> {
+    // Re-read the record so queued turns see thread ids and settings saved while they waited.
+    const currentSession = (await this.store.getSession(session.id)) ?? session;
+    const backend = this.resolveBackend(currentSession);
+    await this.store.recordSessionActivity(currentSession.id);
+    const request: AgentTurnRequest = {
+      session: currentSession,
+      prompt,
+      cwd: await resolveWorkingDirectory(currentSession.projectPath),
+      signal,
+      includeRateLimits: options.includeRateLimits,
+      imagePaths: options.imagePaths,
+      onProgress: options.onProgress,
+    };
+    const startedAtMs = Date.now();
+    const auditTurn = (
+      outcome: "completed" | "failed" | "cancelled",
+      details: {
+        threadId?: string;
+        process?: AgentProcessOutcome;
+        error?: string;
+      },
+    ): void =>
+      this.auditLog?.record({
+        kind: "turn",
+        userId: options.requester.userId,
+        sessionId: currentSession.id,
+        projectPath: currentSession.projectPath,
+        backend: backend.name,
+        outcome,
+        command: options.interactiveSession ? prompt : undefined,
+        durationMs: Date.now() - startedAtMs,
+        threadId: details.threadId ?? currentSession.codexThreadId,
+        exitCode: details.process?.exitCode,
+        timedOut: details.process?.timedOut ?? false,
+        error: details.error,
+      });
+
+    try {
+      const result = options.interactiveSession
+        ? await backend.runInteractiveCommand(request)
+        : await backend.sendTurn(request);
+      auditTurn("completed", result);
+
+      if (result.rateLimits) {
+        await this.store.setRateLimits(backend.name, result.rateLimits);
+      }
+
+      if (result.tokenUsage && this.usageLedger) {
+        await this.usageLedger
+          .append({
+            recordedAt: new Date().toISOString(),
+            sessionId: currentSession.id,
+            projectPath: currentSession.projectPath,
+            userId: options.requester.userId,
+            backend: backend.name,
+            model: currentSession.model,
+            ...result.tokenUsage,
+          })
+          .catch((error: unknown) => {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`Failed to record token usage: ${message}`);
+          });
+      }
+
+      return result;
+    } catch (error: unknown) {
+      if (signal.aborted) {
+        const cancellation = toCancellationError(signal);
+        auditTurn("cancelled", { error: cancellation.message });
+        throw cancellation;
+      }
+
+      auditTurn("failed", {
+        process: error instanceof AgentProcessError ? error.process : undefined,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      if (error instanceof RateLimitExceededError && error.rateLimits) {
+        await this.store.setRateLimits(backend.name, error.rateLimits);
+      }
+
+      throw error;
+    }
+  }
+
+  private async resolveResumeTime(
+    session: SessionRecord,
+    error: RateLimitExceededError,
+  ): Promise<number> {
+    const stored = await this.store.getRateLimits(
+      session.agentBackend ?? DEFAULT_AGENT_BACKEND,
+    );
+    const resetsAt =
+      error.resetsAt ?? (stored ? findExhaustedResetTime(stored.rateLimits) : undefined);
+    const now = Date.now();
+
+    // A missing or already-passed reset time would otherwise retry in a tight loop.
+    if (typeof resetsAt !== "number" || resetsAt * 1000 <= now) {
+      return now + RATE_LIMIT_FALLBACK_HOLD_MS;
+    }
+
+    return resetsAt * 1000 + RATE_LIMIT_RESUME_GRACE_MS;
+  }
+
+  private resolveBackend(session: SessionRecord): AgentBackend {
+    const name = session.agentBackend ?? DEFAULT_AGENT_BACKEND;
+    const backend = this.backends.get(name);
+
+    if (!backend) {
+      throw new Error(
+        `Agent backend "${name}" is not configured. Add it to agentBackends in the config file.`,
+      );
+    }
+
+    return backend;
+  }
+
+  private async withSessionLock<T>(
+    sessionId: string,
+    options: Pick<SendMessageOptions, "requester" | "onQueued">,
+    run: (signal: AbortSignal, entry: SessionTurnEntry) => Promise<T>,
+  ): Promise<T> {
+    const liveEntries = this.listLiveTurnEntries(sessionId);
+    const entry = this.addSessionTurnEntry(sessionId, {
+      controller: new AbortController(),
+      started: false,
+      waitingForSlot: false,
+      requester: options.requester,
+      enqueuedAt: new Date().toISOString(),
+    });
+
+    if (liveEntries.length > 0) {
+      const position = liveEntries.filter((candidate) => !candidate.started).length + 1;
+      options.onQueued?.(position);
+    }
+
+    const { signal } = entry.controller;
+    const runEntry = async (): Promise<T> => {
+      entry.started = true;
+
+      if (signal.aborted) {
+        throw toCancellationError(signal);
+      }
+
+      return run(signal, entry);
+    };
+    const previous = this.sessionQueue.get(sessionId) ?? Promise.resolve();
+    const runPromise = previous.then(runEntry, runEntry);
+    // Follow-up work such as automatic compaction keeps the session locked after the
+    // caller already has its result.
+    const settled = runPromise
+      .then(
+        () => entry.afterRun?.(),
+        () => undefined,
+      )
+      .then(
+        () => undefined,
+        () => undefined,
+      );
+
+    this.sessionQueue.set(sessionId, settled);
+    void settled.then(() => {
+      if (this.sessionQueue.get(sessionId) === settled) {
+        this.sessionQueue.delete(sessionId);
+      }
+    });
+
+    // Queued prompts that get dropped reject right away instead of waiting for their turn.
+    const droppedWhileQueued = new Promise<never>((_, reject) => {
+      signal.addEventListener(
+        "abort",
+        () => {
+          if (!entry.started) {
+            reject(toCancellationError(signal));
+          }
+        },
+        { once: true },
+      );
+    });
+
+    try {
+      return await Promise.race([runPromise, droppedWhileQueued]);
+    } finally {
+      this.removeSessionTurnEntry(sessionId, entry);
+    }
+  }
+
+  private addSessionTurnEntry(
+    sessionId: string,
+    entry: SessionTurnEntry,
+  ): SessionTurnEntry {
+    const entries = this.sessionTurns.get(sessionId) ?? [];
+    entries.push(entry);
+    this.sessionTurns.set(sessionId, entries);
+
+    return entry;
+  }
+
+  private listLiveTurnEntries(sessionId: string): SessionTurnEntry[] {
+    const entries = this.sessionTurns.get(sessionId) ?? [];
+    return entries.filter((entry) => !entry.controller.signal.aborted);
+  }
+
+  private removeSessionTurnEntry(sessionId: string, entry: SessionTurnEntry): void {
+    const entries = this.sessionTurns.get(sessionId);
+
+    if (!entries) {
+      return;
+    }
+
+    const index = entries.indexOf(entry);
+
+    if (index !== -1) {
+      entries.splice(index, 1);
+    }
+
+    if (entries.length === 0) {
+      this.sessionTurns.delete(sessionId);
+    }
+  }
+}
+
+export function findExhaustedResetTime(rateLimits: AgentRateLimits): number | undefined {
+  let resetsAt: number | undefined;
+
+  for (const window of [rateLimits.primary, rateLimits.secondary]) {
+    if (window && window.usedPercent >= 100) {
+      resetsAt = Math.max(resetsAt ?? 0, window.resetsAt);
+    }
+  }
+
+  return resetsAt;
+}
+
+function waitUntil(timestampMs: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolveWait, rejectWait) => {
+    const handleAbort = (): void => {
+      clearTimeout(timer);
+      rejectWait(toCancellationError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", handleAbort);
+      resolveWait();
+    }, Math.max(0, timestampMs - Date.now()));
+
+    if (signal.aborted) {
+      handleAbort();
+      return;
+    }
+
+    signal.addEventListener("abort", handleAbort, { once: true });
+  });
+}
+
+function toQueuedTurnInfo(entry: SessionTurnEntry, position: number): QueuedTurnInfo {
+  return {
+    position,
+    requester: entry.requester,
+    enqueuedAt: entry.enqueuedAt,
+    waitingForSlot: entry.waitingForSlot || undefined,
+    autoCompact: entry.autoCompact,
+  };
+}
+
+function toCancellationError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new TurnCancelledError();
+}
@@ -0,0 +1,128 @@
+import type { CommandTemplateBackendConfig } from "../config.ts";
+import { SessionStore } from "../session/store.ts";
+import { AgentProcessError } from "./bridge.ts";
+import { runProcess, type ProcessResult } from "./process.ts";
+import type { AgentBackend, AgentTurnRequest, AgentTurnResult } from "./types.ts";
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /\{(prompt|cwd|threadId|model)\}/g;
+
+type TemplateValues = Record<"prompt" | "cwd" | "threadId" | "model", string>;
+
+/**
+ * Drives any agent CLI from an argv template in the config file. The prompt is passed as an
+ * argument, stdout becomes the reply, and an optional pattern pulls a thread id out of the
+ * output so later turns can use `resumeCommand`.
+ */
+export class CommandTemplateBackend implements AgentBackend {
+  readonly name: string;
+  private readonly config: CommandTemplateBackendConfig;
+  private readonly store: SessionStore;
+  private readonly threadIdPattern?: RegExp;
+
+  constructor(name: string, config: CommandTemplateBackendConfig, store: SessionStore) {
+    this.name = name;
+    this.config = config;
+    this.store = store;
+    this.threadIdPattern = config.threadIdPattern
+      ? new RegExp(config.threadIdPattern)
+      : undefined;
+  }
+
+  async sendTurn(request: AgentTurnRequest): Promise<AgentTurnResult> {
+    const { session, prompt, cwd, signal } = request;
+    const threadId = session.codexThreadId;
+    const template =
+      threadId && this.config.resumeCommand ? this.config.resumeCommand : this.config.command;
+    const [command, ...args] = fillTemplate(template, {
+      prompt,
+      cwd,
+      threadId: threadId ?? "",
+      model: session.model ?? "",
+    });
+
+    if (!command) {
+      throw new Error(`Agent backend "${this.name}" has an empty command template.`);
+    }
+
+    const result = await runProcess(command, args, cwd, {
+      notFoundMessage: `Unable to find "${command}" in PATH for agent backend "${this.name}".`,
+      timeoutMs: this.config.timeoutMs,
+      signal,
+    });
+
+    if (result.cancelled) {
+      signal.throwIfAborted();
+    }
+
+    const outcome = {
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+    };
+
+    if (result.timedOut) {
+      throw new AgentProcessError(
+        `Agent backend "${this.name}" timed out after ${Math.round(
+          (this.config.timeoutMs ?? 0) / 1000,
+        )}s.`,
+        outcome,
+      );
+    }
+
+    if (result.exitCode !== 0) {
+      throw new AgentProcessError(buildFailureMessage(this.name, result), outcome);
+    }
+
+    const reply = result.stdout.replace(/\r/g, "").trim();
+
+    if (!reply) {
+      throw new Error(`Agent backend "${this.name}" did not print a reply.`);
+    }
+
+    const nextThreadId = this.parseThreadId(result) ?? threadId;
+
+    if (nextThreadId && nextThreadId !== threadId) {
+      await this.store.setSessionCodexThreadId(session.id, nextThreadId);
+    }
+
+    return {
+      threadId: nextThreadId,
+      reply,
+      process: outcome,
+    };
+  }
+
+  async runInteractiveCommand(request: AgentTurnRequest): Promise<AgentTurnResult> {
+    throw new Error(
+      `Agent backend "${this.name}" does not support ${request.prompt}. It is only available for Codex sessions.`,
+    );
+  }
+
+  private parseThreadId(result: ProcessResult): string | undefined {
+    if (!this.threadIdPattern) {
+      return undefined;
+    }
+
+    const match = this.threadIdPattern.exec(`${result.stdout}\n${result.stderr}`);
+    return (match?.[1] ?? match?.[0])?.trim() || undefined;
+  }
+}
+
+function fillTemplate(template: readonly string[], values: TemplateValues): string[] {
+  return template.map((part) =>
+    part.replace(TEMPLATE_PLACEHOLDER_PATTERN, (_match, key: keyof TemplateValues) => values[key]),
+  );
+}
+
+function buildFailureMessage(name: string, result: ProcessResult): string {
+  const lastLine = (output: string): string | undefined =>
+    output
+      .replace(/\r/g, "")
+      .trim()
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .at(-1);
+  const detail = lastLine(result.stderr) ?? lastLine(result.stdout) ?? "Command failed.";
+
+  return `Agent backend "${name}" failed (exit ${result.exitCode}): ${detail}`;
+}
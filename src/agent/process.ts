@@ -0,0 +1,144 @@
+import { spawn } from "node:child_process";
+
+export interface ProcessResult {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+export interface RunProcessOptions {
+  notFoundMessage?: string;
+  timeoutMs?: number;
+  onStdoutLine?: (line: string) => void;
+  signal?: AbortSignal;
+  // Extra environment variables on top of the bot's own environment.
+  env?: NodeJS.ProcessEnv;
+}
+
+export function runProcess(
+  command: string,
+  args: string[],
+  cwd: string,
+  options: RunProcessOptions = {},
+): Promise<ProcessResult> {
+  const { notFoundMessage, timeoutMs, onStdoutLine, signal, env } = options;
+
+  return new Promise((resolveResult, rejectResult) => {
+    const child = spawn(command, args, {
+      cwd,
+      env: env ? { ...process.env, ...env } : process.env,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+
+    let stdout = "";
+    let stderr = "";
+    let pendingStdoutLine = "";
+    let timedOut = false;
+    let cancelled = false;
+    let terminating = false;
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    let forceKillHandle: NodeJS.Timeout | undefined;
+
+    const clearTimers = (): void => {
+      if (timeoutHandle) {
+        clearTimeout(timeoutHandle);
+      }
+
+      if (forceKillHandle) {
+        clearTimeout(forceKillHandle);
+      }
+
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    // Escalate SIGINT -> SIGTERM -> SIGKILL so the agent gets a chance to flush its session log.
+    const terminate = (): void => {
+      if (terminating) {
+        return;
+      }
+
+      terminating = true;
+      child.kill("SIGINT");
+      forceKillHandle = setTimeout(() => {
+        child.kill("SIGTERM");
+        forceKillHandle = setTimeout(() => {
+          child.kill("SIGKILL");
+        }, 2_000);
+      }, 1_000);
+    };
+
+    function handleAbort(): void {
+      cancelled = true;
+      terminate();
+    }
+
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+
+    child.stdout.on("data", (chunk: string) => {
+      stdout += chunk;
+
+      if (!onStdoutLine) {
+        return;
+      }
+
+      const lines = `${pendingStdoutLine}${chunk}`.split("\n");
+      pendingStdoutLine = lines.pop() ?? "";
+
+      for (const line of lines) {
+        onStdoutLine(line);
+      }
+    });
+
+    child.stderr.on("data", (chunk: string) => {
+      stderr += chunk;
+    });
+
+    child.once("error", (error: NodeJS.ErrnoException) => {
+      clearTimers();
+
+      if (error.code === "ENOENT") {
+        rejectResult(
+          new Error(
+            notFoundMessage ??
+              `Unable to find "${command}" in PATH. Install required dependencies and retry.`,
+          ),
+        );
+        return;
+      }
+
+      rejectResult(error);
+    });
+
+    if (typeof timeoutMs === "number" && timeoutMs > 0) {
+      timeoutHandle = setTimeout(() => {
+        timedOut = true;
+        terminate();
+      }, timeoutMs);
+    }
+
+    if (signal?.aborted) {
+      handleAbort();
+    } else {
+      signal?.addEventListener("abort", handleAbort, { once: true });
+    }
+
+    child.once("close", (code) => {
+      clearTimers();
+
+      if (onStdoutLine && pendingStdoutLine) {
+        onStdoutLine(pendingStdoutLine);
+      }
+
+      resolveResult({
+        exitCode: code ?? (timedOut ? 124 : 1),
+        stdout,
+        stderr,
+        timedOut,
+        cancelled,
+      });
+    });
+  });
+}
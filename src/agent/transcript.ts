@@ -0,0 +1,164 @@
+import type { SessionRecord } from "../session/types.ts";
+import type { AgentTokenUsage, AgentTranscriptEntry } from "./types.ts";
+
+export const TRANSCRIPT_FORMATS = ["markdown", "json"] as const;
+
+export type TranscriptFormat = (typeof TRANSCRIPT_FORMATS)[number];
+
+const TRANSCRIPT_VERSION = 1;
+
+export interface RenderedTranscript {
+  fileName: string;
+  content: string;
+}
+
+export function parseTranscriptFormat(value: string | undefined): TranscriptFormat {
+  const format = value?.trim().toLowerCase() || "markdown";
+
+  if (!TRANSCRIPT_FORMATS.includes(format as TranscriptFormat)) {
+    throw new Error(
+      `Unknown transcript format "${value}". Use one of: ${TRANSCRIPT_FORMATS.join(", ")}.`,
+    );
+  }
+
+  return format as TranscriptFormat;
+}
+
+export function renderTranscript(
+  session: SessionRecord,
+  entries: readonly AgentTranscriptEntry[],
+  format: TranscriptFormat,
+  exportedAt: Date = new Date(),
+): RenderedTranscript {
+  const stamp = exportedAt.toISOString().replace(/[:.]/g, "-");
+
+  if (format === "json") {
+    return {
+      fileName: `${session.id}-transcript-${stamp}.json`,
+      content: `${JSON.stringify(
+        {
+          version: TRANSCRIPT_VERSION,
+          exportedAt: exportedAt.toISOString(),
+          session,
+          entries,
+        },
+        null,
+        2,
+      )}\n`,
+    };
+  }
+
+  return {
+    fileName: `${session.id}-transcript-${stamp}.md`,
+    content: renderMarkdownTranscript(session, entries, exportedAt),
+  };
+}
+
+export function countTranscriptTurns(entries: readonly AgentTranscriptEntry[]): number {
+  return entries.filter((entry) => entry.kind === "prompt").length;
+}
+
+function renderMarkdownTranscript(
+  session: SessionRecord,
+  entries: readonly AgentTranscriptEntry[],
+  exportedAt: Date,
+): string {
+  const lines = [
+    `# ${session.title}`,
+    "",
+    `- Session: \`${session.id}\``,
+    `- Project: \`${session.projectPath}\``,
+    `- Backend: \`${session.agentBackend ?? "codex"}\``,
+  ];
+
+  if (session.codexThreadId) {
+    lines.push(`- Codex thread: \`${session.codexThreadId}\``);
+  }
+
+  lines.push(`- Exported: ${exportedAt.toISOString()}`);
+
+  let turnNumber = 0;
+  let totalUsage: AgentTokenUsage | undefined;
+
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case "prompt":
+        turnNumber += 1;
+        lines.push(
+          "",
+          entry.timestamp
+            ? `## Turn ${turnNumber} (${entry.timestamp})`
+            : `## Turn ${turnNumber}`,
+          "",
+          "**Prompt**",
+          "",
+          entry.text,
+        );
+        break;
+      case "reply":
+        lines.push("", "**Reply**", "", entry.text);
+        break;
+      case "command": {
+        const exitLabel =
+          typeof entry.exitCode === "number" ? ` (exit ${entry.exitCode})` : "";
+        lines.push("", `**Command**${exitLabel}`, "", fenceBlock(entry.command, "sh"));
+
+        if (entry.output) {
+          lines.push("", fenceBlock(entry.output, "text"));
+        }
+        break;
+      }
+      case "patch":
+        lines.push("", "**Patch**", "", fenceBlock(entry.patch, "diff"));
+        break;
+      case "token_usage":
+        totalUsage = totalUsage ? addUsage(totalUsage, entry.usage) : entry.usage;
+        lines.push("", `_Tokens: ${formatUsage(entry.usage)}_`);
+        break;
+    }
+  }
+
+  if (turnNumber === 0) {
+    lines.push("", "_No turns recorded._");
+  }
+
+  if (totalUsage) {
+    lines.push("", "---", "", `**Total tokens:** ${formatUsage(totalUsage)}`);
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// Command output and patches can contain fences themselves, so the fence is made longer
+// than any backtick run inside the block.
+function fenceBlock(content: string, language: string): string {
+  const longestRun = (content.match(/`+/g) ?? []).reduce(
+    (longest, run) => Math.max(longest, run.length),
+    0,
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+
+  return `${fence}${language}\n${content.replace(/\n$/, "")}\n${fence}`;
+}
+
+function formatUsage(usage: AgentTokenUsage): string {
+  return (
+    `${formatCount(usage.totalTokens)} total (${formatCount(usage.inputTokens)} input, ` +
+    `${formatCount(usage.cachedInputTokens)} cached, ${formatCount(usage.outputTokens)} output, ` +
+    `${formatCount(usage.reasoningOutputTokens)} reasoning)`
+  );
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function addUsage(a: AgentTokenUsage, b: AgentTokenUsage): AgentTokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningOutputTokens: a.reasoningOutputTokens + b.reasoningOutputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -0,0 +1,123 @@
+export interface TurnSlotLimits {
+  maxConcurrentTurns?: number;
+  maxConcurrentTurnsPerProject?: number;
+}
+
+interface SlotWaiter {
+  projectKey: string;
+  grant: () => void;
+}
+
+/**
+ * Caps how many agent processes run at once, overall and per project. Waiters are served
+ * in arrival order; a waiter whose project is full does not hold back later waiters for
+ * other projects.
+ */
+export class TurnSlotPool {
+  private readonly limits: TurnSlotLimits;
+  private readonly waiters: SlotWaiter[] = [];
+  private readonly runningByProject = new Map<string, number>();
+  private running = 0;
+
+  constructor(limits: TurnSlotLimits = {}) {
+    this.limits = limits;
+  }
+
+  async acquire(
+    projectKey: string,
+    signal: AbortSignal,
+    onWaiting?: (position: number) => void,
+  ): Promise<() => void> {
+    signal.throwIfAborted();
+
+    // Waiters left in the queue are all blocked on their project, so a free slot here is
+    // not one anybody ahead of us could use.
+    if (this.hasFreeSlot(projectKey)) {
+      this.reserve(projectKey);
+      return this.createRelease(projectKey);
+    }
+
+    await new Promise<void>((resolveWait, rejectWait) => {
+      const waiter: SlotWaiter = {
+        projectKey,
+        grant: () => {
+          signal.removeEventListener("abort", handleAbort);
+          resolveWait();
+        },
+      };
+      const handleAbort = (): void => {
+        const index = this.waiters.indexOf(waiter);
+
+        if (index !== -1) {
+          this.waiters.splice(index, 1);
+        }
+
+        rejectWait(signal.reason);
+        this.drain();
+      };
+
+      this.waiters.push(waiter);
+      signal.addEventListener("abort", handleAbort, { once: true });
+      onWaiting?.(this.waiters.length);
+    });
+
+    return this.createRelease(projectKey);
+  }
+
+  private hasFreeSlot(projectKey: string): boolean {
+    const { maxConcurrentTurns, maxConcurrentTurnsPerProject } = this.limits;
+
+    if (typeof maxConcurrentTurns === "number" && this.running >= maxConcurrentTurns) {
+      return false;
+    }
+
+    return (
+      typeof maxConcurrentTurnsPerProject !== "number" ||
+      (this.runningByProject.get(projectKey) ?? 0) < maxConcurrentTurnsPerProject
+    );
+  }
+
+  private createRelease(projectKey: string): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+
+      released = true;
+      this.running -= 1;
+      const projectCount = (this.runningByProject.get(projectKey) ?? 1) - 1;
+
+      if (projectCount > 0) {
+        this.runningByProject.set(projectKey, projectCount);
+      } else {
+        this.runningByProject.delete(projectKey);
+      }
+
+      this.drain();
+    };
+  }
+
+  private reserve(projectKey: string): void {
+    this.running += 1;
+    this.runningByProject.set(projectKey, (this.runningByProject.get(projectKey) ?? 0) + 1);
+  }
+
+  // Slots are reserved here, before the waiter resumes, so a turn arriving in between
+  // cannot take the slot it was promised.
+  private drain(): void {
+    for (let index = 0; index < this.waiters.length; ) {
+      const waiter = this.waiters[index];
+
+      if (!waiter || !this.hasFreeSlot(waiter.projectKey)) {
+        index += 1;
+        continue;
+      }
+
+      this.waiters.splice(index, 1);
+      this.reserve(waiter.projectKey);
+      waiter.grant();
+    }
+  }
+}
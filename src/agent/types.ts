@@ -0,0 +1,125 @@
+import type { SessionRecord } from "../session/types.ts";
+
+export const DEFAULT_AGENT_BACKEND = "codex";
+
+export interface AgentRateLimitWindow {
+  usedPercent: number;
+  windowMinutes: number;
+  resetsAt: number;
+}
+
+export interface AgentCredits {
+  hasCredits: boolean;
+  unlimited: boolean;
+  balance: number | null;
+}
+
+export interface AgentRateLimits {
+  limitId?: string;
+  limitName?: string | null;
+  primary?: AgentRateLimitWindow;
+  secondary?: AgentRateLimitWindow;
+  credits?: AgentCredits;
+  planType?: string | null;
+}
+
+export interface AgentContextWindow {
+  usedTokens: number;
+  maxTokens: number;
+  percentLeft: number;
+}
+
+export interface AgentTokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningOutputTokens: number;
+  totalTokens: number;
+}
+
+// How the agent process for a turn exited.
+export interface AgentProcessOutcome {
+  exitCode: number;
+  timedOut: boolean;
+}
+
+export interface AgentTurnResult {
+  threadId?: string;
+  reply: string;
+  rateLimits?: AgentRateLimits;
+  contextWindow?: AgentContextWindow;
+  tokenUsage?: AgentTokenUsage;
+  process?: AgentProcessOutcome;
+}
+
+export interface AgentHistoryTurn {
+  prompt: string;
+  reply?: string;
+  timestamp?: string;
+}
+
+export interface AgentTranscriptCommand {
+  kind: "command";
+  command: string;
+  exitCode?: number;
+  output?: string;
+  timestamp?: string;
+}
+
+export type AgentTranscriptEntry =
+  | {
+      kind: "prompt" | "reply";
+      text: string;
+      timestamp?: string;
+    }
+  | AgentTranscriptCommand
+  | {
+      kind: "patch";
+      patch: string;
+      timestamp?: string;
+    }
+  | {
+      // Tokens used by the turn that ends here.
+      kind: "token_usage";
+      usage: AgentTokenUsage;
+    };
+
+export type AgentTurnProgress =
+  | {
+      kind: "agent_message";
+      text: string;
+    }
+  | {
+      kind: "reasoning";
+      text: string;
+    }
+  | {
+      kind: "command";
+      command: string;
+      status: "started" | "completed";
+      exitCode?: number;
+    };
+
+export interface AgentTurnRequest {
+  session: SessionRecord;
+  prompt: string;
+  cwd: string;
+  signal: AbortSignal;
+  includeRateLimits?: boolean;
+  imagePaths?: readonly string[];
+  onProgress?: (progress: AgentTurnProgress) => void;
+}
+
+/**
+ * One coding agent the bot can drive. The bridge owns queueing, cancellation and working
+ * directory resolution; a backend only has to run a single turn and report its reply.
+ */
+export interface AgentBackend {
+  readonly name: string;
+  sendTurn(request: AgentTurnRequest): Promise<AgentTurnResult>;
+  runInteractiveCommand(request: AgentTurnRequest): Promise<AgentTurnResult>;
+  // Past prompts and replies of the session, oldest first, for backends that keep a log.
+  readHistory?(session: SessionRecord): Promise<AgentHistoryTurn[]>;
+  // Everything the session did, in log order: prompts, replies, commands, patches and usage.
+  readTranscript?(session: SessionRecord): Promise<AgentTranscriptEntry[]>;
+}
@@ -0,0 +1,19 @@
+import { stat } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+
+// Turns run in the project directory, or the directory containing a project file. A missing
+// path is an error rather than a reason to run somewhere else, such as the bot's own cwd.
+export async function resolveWorkingDirectory(projectPath: string): Promise<string> {
+  const resolvedPath = resolve(projectPath);
+  const details = await stat(resolvedPath).catch(() => undefined);
+
+  if (details?.isDirectory()) {
+    return resolvedPath;
+  }
+
+  if (details?.isFile()) {
+    return dirname(resolvedPath);
+  }
+
+  throw new Error(`Project path \`${projectPath}\` does not exist.`);
+}
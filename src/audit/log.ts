@@ -0,0 +1,224 @@
+import { JsonlFile } from "../storage/jsonl-file.ts";
+
+export type AuditCommandOptionValue = string | number | boolean;
+
+interface AuditEntryBase {
+  recordedAt: string;
+  userId?: string;
+  sessionId?: string;
+  projectPath?: string;
+}
+
+// A message relayed to an agent from a DM or session channel.
+export interface AuditPromptEntry extends AuditEntryBase {
+  kind: "prompt";
+  prompt: string;
+  channelId: string;
+  messageUrl: string;
+  attachmentNames: string[];
+}
+
+export interface AuditCommandEntry extends AuditEntryBase {
+  kind: "command";
+  command: string;
+  options: Record<string, AuditCommandOptionValue>;
+  channelId: string;
+  // Set when the permission check refused the command.
+  denied?: string;
+}
+
+export interface AuditSessionEntry extends AuditEntryBase {
+  kind: "session";
+  action: "create" | "import" | "delete" | "focus";
+}
+
+export interface AuditTurnEntry extends AuditEntryBase {
+  kind: "turn";
+  backend: string;
+  outcome: "completed" | "failed" | "cancelled";
+  // Set for interactive turns such as /compact. Prompts are logged as their own entries.
+  command?: string;
+  durationMs: number;
+  threadId?: string;
+  exitCode?: number;
+  timedOut: boolean;
+  error?: string;
+}
+
+export type AuditEntry =
+  | AuditPromptEntry
+  | AuditCommandEntry
+  | AuditSessionEntry
+  | AuditTurnEntry;
+
+// An entry without its timestamp, which AuditLog adds. Omitting per kind keeps the union.
+export type AuditEntryInput = {
+  [Kind in AuditEntry["kind"]]: Omit<Extract<AuditEntry, { kind: Kind }>, "recordedAt">;
+}[AuditEntry["kind"]];
+
+export interface AuditFilter {
+  userId?: string;
+  sessionId?: string;
+  sinceMs?: number;
+  untilMs?: number;
+}
+
+const AUDIT_ENTRY_KINDS = new Set<AuditEntry["kind"]>([
+  "prompt",
+  "command",
+  "session",
+  "turn",
+]);
+const RELATIVE_TIME_PATTERN = /^(\d+)\s*([mhdw])$/i;
+const RELATIVE_TIME_UNITS_MS: Record<string, number> = {
+  m: 60_000,
+  h: 60 * 60_000,
+  d: 24 * 60 * 60_000,
+  w: 7 * 24 * 60 * 60_000,
+};
+
+/**
+ * Append-only JSONL record of who asked an agent to do what, and where: relayed prompts,
+ * slash commands, session changes and turn outcomes. Nothing ever rewrites the file.
+ */
+export class AuditLog {
+  private readonly file: JsonlFile<AuditEntry>;
+
+  constructor(filePath: string) {
+    this.file = new JsonlFile(filePath, isAuditEntry);
+  }
+
+  async append(input: AuditEntryInput, recordedAt: Date = new Date()): Promise<void> {
+    await this.file.append({ recordedAt: recordedAt.toISOString(), ...input });
+  }
+
+  // A failed write must not fail the prompt or command being audited, so callers that
+  // cannot do anything about it use this and only get a log line.
+  record(input: AuditEntryInput): void {
+    this.append(input).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to write audit log entry: ${message}`);
+    });
+  }
+
+  async readEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+    const entries = await this.file.readEntries();
+    return entries.filter((entry) => matchesFilter(entry, filter));
+  }
+}
+
+/**
+ * Parses a time bound for audit filters: an ISO date or date-time, or a duration before
+ * `now` such as `30m`, `12h`, `7d` or `2w`.
+ */
+export function parseAuditTime(value: string, now: Date = new Date()): number {
+  const trimmed = value.trim();
+  const relative = RELATIVE_TIME_PATTERN.exec(trimmed);
+
+  if (relative) {
+    const [, amount = "0", unit = "m"] = relative;
+    const unitMs = RELATIVE_TIME_UNITS_MS[unit.toLowerCase()] ?? 0;
+
+    return now.getTime() - Number(amount) * unitMs;
+  }
+
+  const parsed = Date.parse(trimmed);
+
+  if (Number.isNaN(parsed)) {
+    throw new Error(
+      `Invalid time "${value}". Use an ISO date such as 2024-05-01 or a duration such as 12h or 7d.`,
+    );
+  }
+
+  return parsed;
+}
+
+// One line per entry, without Discord markup, for the CLI and the /audit command.
+export function formatAuditEntry(entry: AuditEntry): string {
+  const parts = [entry.recordedAt, `user=${entry.userId ?? "-"}`];
+
+  if (entry.sessionId) {
+    parts.push(`session=${entry.sessionId}`);
+  }
+
+  switch (entry.kind) {
+    case "prompt":
+      parts.push(
+        `prompt ${JSON.stringify(clipLine(entry.prompt))}` +
+          (entry.attachmentNames.length > 0
+            ? ` attachments=${entry.attachmentNames.join(",")}`
+            : ""),
+      );
+      break;
+    case "command": {
+      const options = Object.entries(entry.options).map(
+        ([name, value]) => `${name}:${JSON.stringify(value)}`,
+      );
+      parts.push(`/${entry.command}${options.length > 0 ? ` ${options.join(" ")}` : ""}`);
+
+      if (entry.denied) {
+        parts.push(`denied ${JSON.stringify(clipLine(entry.denied))}`);
+      }
+      break;
+    }
+    case "session":
+      parts.push(
+        `session ${entry.action}${entry.projectPath ? ` ${entry.projectPath}` : ""}`,
+      );
+      break;
+    case "turn":
+      parts.push(
+        `turn ${entry.outcome}${entry.command ? ` ${entry.command}` : ""}`,
+        `backend=${entry.backend}`,
+        `duration=${(entry.durationMs / 1000).toFixed(1)}s`,
+      );
+
+      if (typeof entry.exitCode === "number") {
+        parts.push(`exit=${entry.exitCode}`);
+      }
+
+      if (entry.timedOut) {
+        parts.push("timed-out");
+      }
+
+      if (entry.threadId) {
+        parts.push(`thread=${entry.threadId}`);
+      }
+
+      if (entry.error) {
+        parts.push(`error ${JSON.stringify(clipLine(entry.error))}`);
+      }
+      break;
+  }
+
+  return parts.join(" ");
+}
+
+function matchesFilter(entry: AuditEntry, filter: AuditFilter): boolean {
+  const recordedAtMs = Date.parse(entry.recordedAt);
+
+  return (
+    (!filter.userId || entry.userId === filter.userId) &&
+    (!filter.sessionId || entry.sessionId === filter.sessionId) &&
+    (typeof filter.sinceMs !== "number" || recordedAtMs >= filter.sinceMs) &&
+    (typeof filter.untilMs !== "number" || recordedAtMs <= filter.untilMs)
+  );
+}
+
+function isAuditEntry(value: unknown): value is AuditEntry {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const entry = value as AuditEntry;
+
+  return typeof entry.recordedAt === "string" && AUDIT_ENTRY_KINDS.has(entry.kind);
+}
+
+function clipLine(text: string, maxLength = 160): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
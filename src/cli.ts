@@ -4,18 +4,49 @@ import { constants } from "node:fs";
 import { createInterface } from "node:readline/promises";
 import { homedir } from "node:os";
 import { dirname, resolve } from "node:path";
+import { createAgentBackends } from "./agent/backends.ts";
+import { AgentBridge } from "./agent/bridge.ts";
+import {
+  countTranscriptTurns,
+  parseTranscriptFormat,
+  renderTranscript,
+} from "./agent/transcript.ts";
+import { AuditLog, formatAuditEntry, parseAuditTime } from "./audit/log.ts";
+import {
+  findCodexThread,
+  formatCodexThreadPrompt,
+  importCodexThread,
+  listRecentCodexThreads,
+} from "./codex/session-import.ts";
 import {
   getDefaultStateFilePath,
+  hasChannelMode,
+  loadBotConfig,
   resolveConfigFilePath,
   writeBotConfigFile,
 } from "./config.ts";
 import { startDiscordBot } from "./discord/bot.ts";
+import { SessionStore } from "./session/store.ts";
 
-type CommandName = "start" | "setup" | "help";
+type CommandName = "start" | "setup" | "import" | "export" | "audit" | "help";
+
+const IMPORT_LIST_LIMIT = 20;
 type ServiceScope = "user" | "system";
 
 interface CliOptions {
   configPath?: string;
+  recordCodexDir?: string;
+  replayCodexDir?: string;
+  threadId?: string;
+  title?: string;
+  userId?: string;
+  sessionId?: string;
+  format?: string;
+  outputPath?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  json?: boolean;
 }
 
 interface SetupResult {
@@ -39,10 +70,13 @@ interface SystemdInstallInput {
 
 export async function runCli(rawArgs: string[] = process.argv.slice(2)): Promise<void> {
   const command = parseCommand(rawArgs[0]);
-  const options = parseOptions(rawArgs.slice(command ? 1 : 0));
+  const options = parseOptions(rawArgs.slice(command ? 1 : 0), command);
 
   if (!command || command === "start") {
-    await startDiscordBot(options.configPath);
+    await startDiscordBot(options.configPath, {
+      recordDir: options.recordCodexDir,
+      replayDir: options.replayCodexDir,
+    });
     return;
   }
 
@@ -52,6 +86,21 @@ export async function runCli(rawArgs: string[] = process.argv.slice(2)): Promise
     return;
   }
 
+  if (command === "import") {
+    await runImport(options);
+    return;
+  }
+
+  if (command === "export") {
+    await runExport(options);
+    return;
+  }
+
+  if (command === "audit") {
+    await runAudit(options);
+    return;
+  }
+
   printHelp();
 }
 
@@ -72,14 +121,20 @@ function parseCommand(rawCommand?: string): CommandName | undefined {
     return "start";
   }
 
-  if (rawCommand === "setup" || rawCommand === "help") {
+  if (
+    rawCommand === "setup" ||
+    rawCommand === "import" ||
+    rawCommand === "export" ||
+    rawCommand === "audit" ||
+    rawCommand === "help"
+  ) {
     return rawCommand;
   }
 
   throw new Error(`Unknown command "${rawCommand}". Run "vibecord help".`);
 }
 
-function parseOptions(args: string[]): CliOptions {
+function parseOptions(args: string[], command?: CommandName): CliOptions {
   const options: CliOptions = {};
 
   for (let index = 0; index < args.length; index += 1) {
@@ -97,11 +152,113 @@ function parseOptions(args: string[]): CliOptions {
       continue;
     }
 
+    if (arg === "--record-codex" || arg === "--replay-codex") {
+      const value = args[index + 1];
+
+      if (!value) {
+        throw new Error(`Missing value for "${arg}".`);
+      }
+
+      if (arg === "--record-codex") {
+        options.recordCodexDir = value;
+      } else {
+        options.replayCodexDir = value;
+      }
+
+      index += 1;
+      continue;
+    }
+
+    if (command === "import" && (arg === "--title" || arg === "--user")) {
+      const value = args[index + 1];
+
+      if (!value) {
+        throw new Error(`Missing value for "${arg}".`);
+      }
+
+      if (arg === "--title") {
+        options.title = value;
+      } else {
+        options.userId = value;
+      }
+
+      index += 1;
+      continue;
+    }
+
+    if (command === "export" && (arg === "--format" || arg === "--output")) {
+      const value = args[index + 1];
+
+      if (!value) {
+        throw new Error(`Missing value for "${arg}".`);
+      }
+
+      if (arg === "--format") {
+        options.format = value;
+      } else {
+        options.outputPath = value;
+      }
+
+      index += 1;
+      continue;
+    }
+
+    if (
+      command === "audit" &&
+      (arg === "--user" ||
+        arg === "--session" ||
+        arg === "--since" ||
+        arg === "--until" ||
+        arg === "--limit")
+    ) {
+      const value = args[index + 1];
+
+      if (!value) {
+        throw new Error(`Missing value for "${arg}".`);
+      }
+
+      if (arg === "--user") {
+        options.userId = value;
+      } else if (arg === "--session") {
+        options.sessionId = value;
+      } else if (arg === "--since") {
+        options.since = value;
+      } else if (arg === "--until") {
+        options.until = value;
+      } else {
+        const limit = Number(value);
+
+        if (!Number.isInteger(limit) || limit <= 0) {
+          throw new Error('"--limit" must be a positive integer.');
+        }
+
+        options.limit = limit;
+      }
+
+      index += 1;
+      continue;
+    }
+
+    if (command === "audit" && arg === "--json") {
+      options.json = true;
+      continue;
+    }
+
     if (arg === "--help" || arg === "-h") {
       printHelp();
       process.exit(0);
     }
 
+    if (command === "import" && arg && !arg.startsWith("-") && !options.threadId) {
+      options.threadId = arg;
+      continue;
+    }
+
+    if (command === "export" && arg && !arg.startsWith("-") && !options.sessionId) {
+      options.sessionId = arg;
+      continue;
+    }
+
     throw new Error(`Unknown option "${arg}". Run "vibecord help".`);
   }
 
@@ -196,6 +353,119 @@ async function runInteractiveSetup(options: CliOptions): Promise<SetupResult> {
   }
 }
 
+async function runImport(options: CliOptions): Promise<void> {
+  if (!options.threadId) {
+    const threads = await listRecentCodexThreads(IMPORT_LIST_LIMIT);
+
+    if (threads.length === 0) {
+      console.log("No Codex CLI sessions found in ~/.codex/sessions.");
+      return;
+    }
+
+    for (const thread of threads) {
+      console.log(
+        `${thread.threadId}  ${thread.updatedAt}  ${thread.cwd ?? "(unknown directory)"}`,
+      );
+      console.log(`  ${formatCodexThreadPrompt(thread, 100)}`);
+    }
+
+    console.log("");
+    console.log(
+      "Import one with: vibecord import <thread-id> [--title <title>] [--user <discord-user-id>]",
+    );
+    return;
+  }
+
+  const config = await loadBotConfig(options.configPath);
+  // Only the session owner may change its sandbox settings, so the import needs a Discord
+  // user. A bot with a single allowlisted user can assume it is that user.
+  const [onlyAllowedUserId, ...otherAllowedUserIds] = config.dmAllowlistUserIds;
+  const userId =
+    options.userId ?? (otherAllowedUserIds.length === 0 ? onlyAllowedUserId : undefined);
+
+  if (!userId) {
+    throw new Error('Pass "--user <discord-user-id>" to choose who owns the imported session.');
+  }
+
+  const thread = await findCodexThread(options.threadId);
+
+  if (!thread) {
+    throw new Error(`No Codex CLI session with thread ID "${options.threadId}" was found.`);
+  }
+
+  const store = new SessionStore(config.stateFilePath);
+  const session = await importCodexThread(store, thread, {
+    createdByUserId: userId,
+    title: options.title,
+    workspaceRoots: config.workspaceRoots,
+  });
+  await store.setFocusedSessionId(userId, session.id);
+  await new AuditLog(config.auditLogFilePath).append({
+    kind: "session",
+    action: "import",
+    userId,
+    sessionId: session.id,
+    projectPath: session.projectPath,
+  });
+
+  console.log(`Imported Codex thread ${thread.threadId} as session ${session.id}.`);
+  console.log(`Project: ${session.projectPath}`);
+  console.log(`Title: ${session.title}`);
+
+  if (hasChannelMode(config)) {
+    console.log("The session channel is created the next time the bot starts.");
+  }
+}
+
+async function runExport(options: CliOptions): Promise<void> {
+  if (!options.sessionId) {
+    throw new Error('Missing session ID. Usage: "vibecord export <session-id>".');
+  }
+
+  const format = parseTranscriptFormat(options.format);
+  const config = await loadBotConfig(options.configPath);
+  const store = new SessionStore(config.stateFilePath);
+  const session = await store.getSession(options.sessionId);
+
+  if (!session) {
+    throw new Error(`Session ${options.sessionId} does not exist.`);
+  }
+
+  const agents = new AgentBridge(store, createAgentBackends(config, store));
+  const entries = await agents.readTranscript(session);
+  const transcript = renderTranscript(session, entries, format);
+  const outputPath = resolve(options.outputPath ?? transcript.fileName);
+
+  await mkdir(dirname(outputPath), {
+    recursive: true,
+  });
+  await writeFile(outputPath, transcript.content, "utf8");
+
+  console.log(
+    `Exported ${countTranscriptTurns(entries)} turns of session ${session.id} to ${outputPath}.`,
+  );
+}
+
+async function runAudit(options: CliOptions): Promise<void> {
+  const config = await loadBotConfig(options.configPath);
+  const auditLog = new AuditLog(config.auditLogFilePath);
+  const entries = await auditLog.readEntries({
+    userId: options.userId,
+    sessionId: options.sessionId,
+    sinceMs: options.since ? parseAuditTime(options.since) : undefined,
+    untilMs: options.until ? parseAuditTime(options.until) : undefined,
+  });
+  const shown = options.limit ? entries.slice(-options.limit) : entries;
+
+  for (const entry of shown) {
+    console.log(options.json ? JSON.stringify(entry) : formatAuditEntry(entry));
+  }
+
+  if (!options.json && shown.length === 0) {
+    console.log(`No audit entries match in ${config.auditLogFilePath}.`);
+  }
+}
+
 async function installSystemdService(input: SystemdInstallInput): Promise<string> {
   const isUserScope = input.scope === "user";
   const serviceFilePath = isUserScope
@@ -307,7 +577,23 @@ function printHelp(): void {
     [
       "vibecord commands:",
       "  vibecord start [--config <path>]    Start the Discord bot",
+      "    --record-codex <dir>              Save each Codex turn's output as a fixture",
+      "    --replay-codex <dir>              Serve Codex turns from fixtures instead of running codex",
       "  vibecord setup [--config <path>]    Interactive setup + optional systemd install",
+      "  vibecord import [--config <path>] [<thread-id>]",
+      "                                      List Codex CLI sessions, or import one by thread ID",
+      "    --title <title>                   Session title (defaults to the first prompt)",
+      "    --user <discord-user-id>          Session owner (defaults to the only allowlisted user)",
+      "  vibecord export [--config <path>] <session-id>",
+      "                                      Write a session transcript to disk",
+      "    --format <markdown|json>          Transcript format (default markdown)",
+      "    --output <path>                   Output file (defaults to a name in the current directory)",
+      "  vibecord audit [--config <path>]    Print audit log entries, oldest first",
+      "    --user <discord-user-id>          Only entries for this user",
+      "    --session <session-id>            Only entries for this session",
+      "    --since <time> / --until <time>   ISO date/time, or a duration ago such as 12h or 7d",
+      "    --limit <count>                   Only the most recent <count> entries",
+      "    --json                            Print entries as JSON Lines",
       "  vibecord help                       Show help",
     ].join("\n"),
   );
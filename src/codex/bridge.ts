@@ -1,125 +1,162 @@
 import { randomUUID } from "node:crypto";
-import { spawn } from "node:child_process";
-import { dirname, join, resolve } from "node:path";
-import { readFile, readdir, stat, unlink } from "node:fs/promises";
-import { homedir, tmpdir } from "node:os";
+import { resolve } from "node:path";
+import { readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import {
+  AgentProcessError,
+  RateLimitExceededError,
+  findExhaustedResetTime,
+} from "../agent/bridge.ts";
+import { runProcess, type ProcessResult } from "../agent/process.ts";
+import {
+  DEFAULT_AGENT_BACKEND,
+  type AgentBackend,
+  type AgentContextWindow,
+  type AgentCredits,
+  type AgentHistoryTurn,
+  type AgentProcessOutcome,
+  type AgentTranscriptCommand,
+  type AgentTranscriptEntry,
+  type AgentRateLimitWindow,
+  type AgentRateLimits,
+  type AgentTokenUsage,
+  type AgentTurnProgress,
+  type AgentTurnRequest,
+  type AgentTurnResult,
+} from "../agent/types.ts";
 import { SessionStore } from "../session/store.ts";
 import type { SessionRecord } from "../session/types.ts";
+import {
+  CodexFixtureRecorder,
+  CodexFixtureReplayer,
+  toProcessResult,
+  type CodexFixtureMode,
+  type CodexTurnRecording,
+} from "./fixtures.ts";
+import {
+  SessionLogIndex,
+  captureSessionLogSnapshot,
+  isRolloutFileForThread,
+  parseRolloutThreadId,
+  readSessionLogDelta,
+} from "./session-logs.ts";
 
 const CODEX_BINARY = "codex";
 const SCRIPT_BINARY = "script";
+// Codex's own wording for an exhausted plan window. Generic 429 and backoff messages are
+// transient and must not hold a prompt for the fallback period, so they are not matched.
+const CODEX_USAGE_LIMIT_PATTERN =
+  /usage_limit_reached|you(?:'|\u2019)ve (?:hit|reached) your usage limit/i;
 const CODEX_SESSION_ID_PATTERN =
   /session id:\s*([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/i;
 
-export interface CodexTurnResult {
-  threadId: string;
-  reply: string;
-  rateLimits?: CodexRateLimits;
-  contextWindow?: CodexContextWindow;
+export interface CodexBridgeOptions {
+  // Save every turn's argv and output as a fixture in this directory.
+  recordDir?: string;
+  // Serve turns from fixtures in this directory instead of spawning Codex.
+  replayDir?: string;
+  // Shared with /import so the rollout tree is walked and watched once.
+  sessionLogs?: SessionLogIndex;
 }
 
-interface ProcessResult {
-  exitCode: number;
-  stdout: string;
-  stderr: string;
-  timedOut: boolean;
-}
-
-interface SendMessageOptions {
-  includeRateLimits?: boolean;
-  interactiveSession?: boolean;
-}
-
-export interface CodexRateLimitWindow {
-  usedPercent: number;
-  windowMinutes: number;
-  resetsAt: number;
-}
-
-interface CodexCredits {
-  hasCredits: boolean;
-  unlimited: boolean;
-  balance: number | null;
-}
-
-export interface CodexRateLimits {
-  limitId?: string;
-  limitName?: string | null;
-  primary?: CodexRateLimitWindow;
-  secondary?: CodexRateLimitWindow;
-  credits?: CodexCredits;
-  planType?: string | null;
-}
-
-export interface CodexContextWindow {
-  usedTokens: number;
-  maxTokens: number;
-  percentLeft: number;
-}
-
-export class CodexBridge {
+export class CodexBridge implements AgentBackend {
+  readonly name = DEFAULT_AGENT_BACKEND;
   private readonly store: SessionStore;
-  private readonly sessionQueue = new Map<string, Promise<void>>();
+  private readonly sessionLogs: SessionLogIndex;
+  private readonly recorder?: CodexFixtureRecorder;
+  private readonly replayer?: CodexFixtureReplayer;
 
-  constructor(store: SessionStore) {
-    this.store = store;
-  }
-
-  async sendMessage(
-    session: SessionRecord,
-    prompt: string,
-    options: SendMessageOptions = {},
-  ): Promise<CodexTurnResult> {
-    const trimmedPrompt = prompt.trim();
-
-    if (!trimmedPrompt) {
-      throw new Error("Prompt cannot be empty.");
+  constructor(store: SessionStore, options: CodexBridgeOptions = {}) {
+    if (options.recordDir && options.replayDir) {
+      throw new Error("Codex turns cannot be recorded and replayed at the same time.");
     }
 
-    return this.withSessionLock(session.id, async () => {
-      const cwd = await resolveCodexWorkingDirectory(session.projectPath);
-
-      if (options.interactiveSession) {
-        return this.sendMessageViaInteractiveSession(session, trimmedPrompt, cwd);
-      }
-
-      return this.sendMessageViaExec(session, trimmedPrompt, cwd, options);
-    });
+    this.store = store;
+    this.sessionLogs = options.sessionLogs ?? new SessionLogIndex();
+    this.recorder = options.recordDir
+      ? new CodexFixtureRecorder(options.recordDir)
+      : undefined;
+    this.replayer = options.replayDir
+      ? new CodexFixtureReplayer(options.replayDir)
+      : undefined;
   }
 
-  private async sendMessageViaExec(
-    session: SessionRecord,
-    prompt: string,
-    cwd: string,
-    options: SendMessageOptions,
-  ): Promise<CodexTurnResult> {
+  async sendTurn(request: AgentTurnRequest): Promise<AgentTurnResult> {
+    const { session, prompt, cwd, signal, onProgress } = request;
     const outputFilePath = resolve(
       tmpdir(),
       `vibecord-codex-reply-${randomUUID()}.txt`,
     );
     const commandArgs = buildCodexCommandArgs(
-      session.codexThreadId,
+      session,
       prompt,
       outputFilePath,
-      options.includeRateLimits === true,
-    );
-    const result = await runProcess(
-      CODEX_BINARY,
-      commandArgs,
-      cwd,
-      `Unable to find "${CODEX_BINARY}" in PATH. Install Codex CLI and retry.`,
+      request.includeRateLimits === true || Boolean(onProgress),
+      request.imagePaths ?? [],
     );
+    const onStdoutLine = onProgress
+      ? (line: string): void => {
+          const progress = parseTurnProgressEvent(line);
+
+          if (progress) {
+            onProgress(progress);
+          }
+        }
+      : undefined;
+    const replayed = this.replayer
+      ? await replayExecTurn(
+          this.replayer,
+          commandArgs,
+          outputFilePath,
+          signal,
+          onStdoutLine,
+        )
+      : undefined;
+    const rolloutPath = replayed ? undefined : await this.resolveSessionRolloutPath(session);
+    const snapshot = await captureSessionLogSnapshot(rolloutPath);
+    const result = replayed
+      ? replayed.result
+      : await runProcess(CODEX_BINARY, commandArgs, cwd, {
+          notFoundMessage: `Unable to find "${CODEX_BINARY}" in PATH. Install Codex CLI and retry.`,
+          onStdoutLine,
+          signal,
+        });
 
     try {
-      if (result.exitCode !== 0) {
-        throw new Error(buildCodexFailureMessage(result));
+      if (result.cancelled) {
+        signal.throwIfAborted();
       }
 
       const combinedOutput = [result.stdout, result.stderr].join("\n");
       const threadId =
         parseSessionId(combinedOutput) ?? session.codexThreadId;
-      const rateLimits = parseRateLimits(combinedOutput);
-      const contextWindow = parseContextWindow(combinedOutput);
+      // A new thread's rollout file only exists once Codex has run.
+      const logFilePath =
+        rolloutPath ??
+        (threadId ? await this.sessionLogs.findRolloutFileForThread(threadId) : undefined);
+      const logDelta = replayed
+        ? replayed.rolloutDelta
+        : logFilePath
+          ? await readSessionLogDelta(snapshot, logFilePath)
+          : "";
+
+      if (this.recorder) {
+        await this.recordTurn("exec", commandArgs, cwd, result, {
+          lastMessage: await readOptionalFile(outputFilePath),
+          rolloutDelta: logDelta,
+        });
+      }
+
+      // stdout only carries token counts with --json, so the rollout log fills the gaps.
+      const rateLimits = parseRateLimits(combinedOutput) ?? parseRateLimits(logDelta);
+
+      if (result.exitCode !== 0) {
+        throw buildCodexFailure(result, rateLimits);
+      }
+
+      const contextWindow =
+        parseContextWindow(combinedOutput) ?? parseContextWindow(logDelta);
+      const tokenUsage = parseTokenUsage(combinedOutput) ?? parseTokenUsage(logDelta);
 
       if (!threadId) {
         throw new Error(
@@ -135,45 +172,108 @@ export class CodexBridge {
         );
       }
 
-      if (threadId !== session.codexThreadId) {
-        await this.store.setSessionCodexThreadId(session.id, threadId);
-      }
+      await this.rememberCodexThread(
+        session,
+        threadId,
+        logFilePath && isRolloutFileForThread(logFilePath, threadId) ? logFilePath : undefined,
+      );
 
       return {
         threadId,
         reply,
         rateLimits,
         contextWindow,
+        tokenUsage,
+        process: toProcessOutcome(result),
       };
     } finally {
       await cleanupFile(outputFilePath);
     }
   }
 
-  private async sendMessageViaInteractiveSession(
-    session: SessionRecord,
-    prompt: string,
-    cwd: string,
-  ): Promise<CodexTurnResult> {
-    const snapshot = await captureSessionLogSnapshot();
-    const commandArgs = buildInteractiveCommandArgs(session.codexThreadId, prompt);
+  async runInteractiveCommand(request: AgentTurnRequest): Promise<AgentTurnResult> {
+    const { session, prompt, cwd, signal } = request;
+    const commandArgs = buildInteractiveCommandArgs(session, prompt);
     const timeoutMs = resolveInteractiveTimeoutMs(prompt);
+
+    if (this.replayer) {
+      signal.throwIfAborted();
+      const fixture = await this.replayer.next("interactive", [CODEX_BINARY, ...commandArgs]);
+      signal.throwIfAborted();
+      return this.finishInteractiveTurn(
+        session,
+        toProcessResult(fixture),
+        timeoutMs,
+        fixture.rolloutDelta ?? "",
+      );
+    }
+
+    const rolloutPath = await this.resolveSessionRolloutPath(session);
+    const snapshot = await captureSessionLogSnapshot(rolloutPath);
     const result = await runProcessWithPseudoTerminal(
       CODEX_BINARY,
       commandArgs,
       cwd,
       timeoutMs,
+      signal,
     );
 
+    if (result.cancelled) {
+      signal.throwIfAborted();
+    }
+
+    const logFilePath =
+      rolloutPath ??
+      (await this.sessionLogs.findRolloutFileStartedSince(snapshot.capturedAtMs, cwd));
+    const logDelta = logFilePath ? await readSessionLogDelta(snapshot, logFilePath) : "";
+
+    if (this.recorder) {
+      await this.recordTurn("interactive", commandArgs, cwd, result, {
+        rolloutDelta: logDelta,
+      });
+    }
+
+    return this.finishInteractiveTurn(session, result, timeoutMs, logDelta, logFilePath);
+  }
+
+  async readHistory(session: SessionRecord): Promise<AgentHistoryTurn[]> {
+    const rolloutPath = await this.resolveSessionRolloutPath(session);
+
+    if (!rolloutPath) {
+      return [];
+    }
+
+    return parseRolloutHistory((await readOptionalFile(rolloutPath)) ?? "");
+  }
+
+  async readTranscript(session: SessionRecord): Promise<AgentTranscriptEntry[]> {
+    const rolloutPath = await this.resolveSessionRolloutPath(session);
+
+    if (!rolloutPath) {
+      return [];
+    }
+
+    return parseRolloutTranscript((await readOptionalFile(rolloutPath)) ?? "");
+  }
+
+  private async finishInteractiveTurn(
+    session: SessionRecord,
+    result: ProcessResult,
+    timeoutMs: number,
+    logDelta: string,
+    logFilePath?: string,
+  ): Promise<AgentTurnResult> {
     const combinedOutput = [result.stdout, result.stderr].join("\n");
-    const logDelta = await readSessionLogDelta(snapshot);
     const combinedWithLog = `${combinedOutput}\n${logDelta}`;
     const threadId =
-      parseSessionId(combinedWithLog) ?? session.codexThreadId;
+      parseSessionId(combinedWithLog) ??
+      session.codexThreadId ??
+      (logFilePath ? parseRolloutThreadId(logFilePath) : undefined);
     const rateLimits =
       parseRateLimits(combinedWithLog) ?? parseRateLimits(logDelta);
     const contextWindow =
       parseContextWindow(combinedWithLog) ?? parseContextWindow(logDelta);
+    const tokenUsage = parseTokenUsage(combinedWithLog);
     const reply = parseAssistantReplyFromJsonEvents(logDelta) ?? parseAssistantReply(combinedOutput);
 
     if (!threadId) {
@@ -184,15 +284,16 @@ export class CodexBridge {
 
     if (!reply) {
       if (result.timedOut) {
-        throw new Error(
+        throw new AgentProcessError(
           `Codex interactive command timed out after ${Math.round(
             timeoutMs / 1000,
           )}s without an assistant reply.`,
+          toProcessOutcome(result),
         );
       }
 
       if (result.exitCode !== 0) {
-        throw new Error(buildCodexFailureMessage(result));
+        throw buildCodexFailure(result, rateLimits);
       }
 
       throw new Error(
@@ -201,57 +302,107 @@ export class CodexBridge {
     }
 
     if (result.exitCode !== 0 && !result.timedOut) {
-      throw new Error(buildCodexFailureMessage(result));
+      throw buildCodexFailure(result, rateLimits);
     }
 
-    if (threadId !== session.codexThreadId) {
-      await this.store.setSessionCodexThreadId(session.id, threadId);
-    }
+    await this.rememberCodexThread(
+      session,
+      threadId,
+      logFilePath && isRolloutFileForThread(logFilePath, threadId) ? logFilePath : undefined,
+    );
 
     return {
       threadId,
       reply,
       rateLimits,
       contextWindow,
+      tokenUsage,
+      process: toProcessOutcome(result),
     };
   }
 
-  private async withSessionLock<T>(
-    sessionId: string,
-    run: () => Promise<T>,
-  ): Promise<T> {
-    const previous = this.sessionQueue.get(sessionId) ?? Promise.resolve();
-    const runPromise = previous.then(run, run);
-    const settled = runPromise.then(
-      () => undefined,
-      () => undefined,
-    );
+  private async recordTurn(
+    mode: CodexFixtureMode,
+    commandArgs: string[],
+    cwd: string,
+    result: ProcessResult,
+    extra: Pick<CodexTurnRecording, "lastMessage" | "rolloutDelta">,
+  ): Promise<void> {
+    try {
+      await this.recorder?.record({
+        mode,
+        argv: [CODEX_BINARY, ...commandArgs],
+        cwd,
+        exitCode: result.exitCode,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        timedOut: result.timedOut,
+        ...extra,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to record Codex turn: ${message}`);
+    }
+  }
 
-    this.sessionQueue.set(sessionId, settled);
+  private async resolveSessionRolloutPath(
+    session: SessionRecord,
+  ): Promise<string | undefined> {
+    const threadId = session.codexThreadId;
 
-    try {
-      return await runPromise;
-    } finally {
-      if (this.sessionQueue.get(sessionId) === settled) {
-        this.sessionQueue.delete(sessionId);
-      }
+    if (!threadId) {
+      return undefined;
     }
+
+    if (
+      session.codexRolloutPath &&
+      isRolloutFileForThread(session.codexRolloutPath, threadId) &&
+      (await isExistingFile(session.codexRolloutPath))
+    ) {
+      return session.codexRolloutPath;
+    }
+
+    const rolloutPath = await this.sessionLogs.findRolloutFileForThread(threadId);
+
+    if (rolloutPath) {
+      await this.store.setSessionCodexRolloutPath(session.id, rolloutPath);
+    }
+
+    return rolloutPath;
   }
-}
 
-interface SessionLogSnapshot {
-  latestFilePath?: string;
-  lineCount: number;
-}
+  private async rememberCodexThread(
+    session: SessionRecord,
+    threadId: string,
+    knownRolloutPath?: string,
+  ): Promise<void> {
+    const threadChanged = threadId !== session.codexThreadId;
+
+    if (threadChanged) {
+      await this.store.setSessionCodexThreadId(session.id, threadId);
+    }
+
+    if (!threadChanged && session.codexRolloutPath) {
+      return;
+    }
 
-const CODEX_SESSION_LOG_ROOT = resolve(homedir(), ".codex", "sessions");
+    const rolloutPath =
+      knownRolloutPath ?? (await this.sessionLogs.findRolloutFileForThread(threadId));
+
+    if (rolloutPath) {
+      await this.store.setSessionCodexRolloutPath(session.id, rolloutPath);
+    }
+  }
+}
 
 function buildCodexCommandArgs(
-  threadId: string | undefined,
+  session: SessionRecord,
   prompt: string,
   outputFilePath: string,
-  includeRateLimits: boolean,
+  emitJsonEvents: boolean,
+  imagePaths: readonly string[],
 ): string[] {
+  const threadId = session.codexThreadId;
   const baseArgs = [
     "exec",
     "--color",
@@ -259,12 +410,23 @@ function buildCodexCommandArgs(
     "--skip-git-repo-check",
     "--output-last-message",
     outputFilePath,
+    ...buildSessionConfigArgs(session),
+    // `codex exec` has no way to answer an approval prompt, so turns never ask and the
+    // sandbox mode alone decides what they may do.
+    "-c",
+    'approval_policy="never"',
   ];
 
-  if (includeRateLimits) {
+  if (emitJsonEvents) {
     baseArgs.push("--json");
   }
 
+  // "--image" takes a variable number of values, so bind each path with "=" to keep
+  // the prompt positional from being read as another image.
+  for (const imagePath of imagePaths) {
+    baseArgs.push(`--image=${imagePath}`);
+  }
+
   if (threadId) {
     return [
       ...baseArgs,
@@ -281,117 +443,34 @@ function buildCodexCommandArgs(
 }
 
 function buildInteractiveCommandArgs(
-  threadId: string | undefined,
+  session: SessionRecord,
   prompt: string,
 ): string[] {
-  if (threadId) {
-    return ["--no-alt-screen", "resume", threadId, prompt];
-  }
-
-  return ["--no-alt-screen", prompt];
-}
-
-async function resolveCodexWorkingDirectory(projectPath: string): Promise<string> {
-  const resolvedPath = resolve(projectPath);
+  const baseArgs = ["--no-alt-screen", ...buildSessionConfigArgs(session)];
 
-  try {
-    const details = await stat(resolvedPath);
-
-    if (details.isDirectory()) {
-      return resolvedPath;
-    }
-
-    if (details.isFile()) {
-      return dirname(resolvedPath);
-    }
-  } catch {
-    // Fall back to the current process directory when the project path does not exist yet.
+  if (session.codexThreadId) {
+    return [...baseArgs, "resume", session.codexThreadId, prompt];
   }
 
-  return process.cwd();
+  return [...baseArgs, prompt];
 }
 
-function runProcess(
-  command: string,
-  args: string[],
-  cwd: string,
-  notFoundMessage?: string,
-  timeoutMs?: number,
-): Promise<ProcessResult> {
-  return new Promise((resolveResult, rejectResult) => {
-    const child = spawn(command, args, {
-      cwd,
-      env: process.env,
-      stdio: ["ignore", "pipe", "pipe"],
-    });
-
-    let stdout = "";
-    let stderr = "";
-    let timedOut = false;
-    let timeoutHandle: NodeJS.Timeout | undefined;
-    let forceKillHandle: NodeJS.Timeout | undefined;
-
-    const clearTimers = (): void => {
-      if (timeoutHandle) {
-        clearTimeout(timeoutHandle);
-      }
-
-      if (forceKillHandle) {
-        clearTimeout(forceKillHandle);
-      }
-    };
-
-    child.stdout.setEncoding("utf8");
-    child.stderr.setEncoding("utf8");
-
-    child.stdout.on("data", (chunk: string) => {
-      stdout += chunk;
-    });
+function buildSessionConfigArgs(session: SessionRecord): string[] {
+  const args: string[] = [];
 
-    child.stderr.on("data", (chunk: string) => {
-      stderr += chunk;
-    });
+  if (session.sandboxMode) {
+    args.push("--sandbox", session.sandboxMode);
+  }
 
-    child.once("error", (error: NodeJS.ErrnoException) => {
-      clearTimers();
+  if (session.model) {
+    args.push("--model", session.model);
+  }
 
-      if (error.code === "ENOENT") {
-        rejectResult(
-          new Error(
-            notFoundMessage ??
-              `Unable to find "${command}" in PATH. Install required dependencies and retry.`,
-          ),
-        );
-        return;
-      }
+  if (session.reasoningEffort) {
+    args.push("-c", `model_reasoning_effort="${session.reasoningEffort}"`);
+  }
 
-      rejectResult(error);
-    });
-
-    if (typeof timeoutMs === "number" && timeoutMs > 0) {
-      timeoutHandle = setTimeout(() => {
-        timedOut = true;
-        child.kill("SIGINT");
-        forceKillHandle = setTimeout(() => {
-          child.kill("SIGTERM");
-          forceKillHandle = setTimeout(() => {
-            child.kill("SIGKILL");
-          }, 2_000);
-        }, 1_000);
-      }, timeoutMs);
-    }
-
-    child.once("close", (code) => {
-      clearTimers();
-
-      resolveResult({
-        exitCode: code ?? (timedOut ? 124 : 1),
-        stdout,
-        stderr,
-        timedOut,
-      });
-    });
-  });
+  return args;
 }
 
 function runProcessWithPseudoTerminal(
@@ -399,17 +478,16 @@ function runProcessWithPseudoTerminal(
   args: string[],
   cwd: string,
   timeoutMs: number,
+  signal?: AbortSignal,
 ): Promise<ProcessResult> {
   const escapedCommand = buildShellCommand(command, args);
   const scriptArgs = ["-q", "-e", "-c", escapedCommand, "/dev/null"];
 
-  return runProcess(
-    SCRIPT_BINARY,
-    scriptArgs,
-    cwd,
-    `Unable to find "${SCRIPT_BINARY}" in PATH. Install util-linux script(1) and retry.`,
+  return runProcess(SCRIPT_BINARY, scriptArgs, cwd, {
+    notFoundMessage: `Unable to find "${SCRIPT_BINARY}" in PATH. Install util-linux script(1) and retry.`,
     timeoutMs,
-  );
+    signal,
+  });
 }
 
 function resolveInteractiveTimeoutMs(prompt: string): number {
@@ -426,6 +504,41 @@ function resolveInteractiveTimeoutMs(prompt: string): number {
   return 90_000;
 }
 
+// Stdout lines are replayed one event-loop turn apart, so /cancel can stop a replay
+// midway just as it stops a live process.
+async function replayExecTurn(
+  replayer: CodexFixtureReplayer,
+  commandArgs: string[],
+  outputFilePath: string,
+  signal: AbortSignal,
+  onStdoutLine?: (line: string) => void,
+): Promise<{ result: ProcessResult; rolloutDelta: string }> {
+  signal.throwIfAborted();
+  const fixture = await replayer.next("exec", [CODEX_BINARY, ...commandArgs]);
+  const result = toProcessResult(fixture);
+
+  if (typeof fixture.lastMessage === "string") {
+    await writeFile(outputFilePath, fixture.lastMessage, "utf8");
+  }
+
+  if (onStdoutLine) {
+    for (const line of fixture.stdout.split("\n")) {
+      await new Promise((resolveLine) => setImmediate(resolveLine));
+
+      if (signal.aborted) {
+        break;
+      }
+
+      onStdoutLine(line);
+    }
+  }
+
+  return {
+    result: { ...result, cancelled: signal.aborted },
+    rolloutDelta: fixture.rolloutDelta ?? "",
+  };
+}
+
 function buildShellCommand(command: string, args: string[]): string {
   return [command, ...args].map(quoteShellArg).join(" ");
 }
@@ -510,7 +623,7 @@ function parseAssistantReplyFromJsonEvents(output: string): string | undefined {
     }
 
     const record = parsed as Record<string, unknown>;
-    const payloadValue = record.payload;
+    const payloadValue = record.payload ?? record.msg ?? record.item;
     const payload =
       payloadValue && typeof payloadValue === "object"
         ? (payloadValue as Record<string, unknown>)
@@ -537,11 +650,233 @@ function parseAssistantReplyFromJsonEvents(output: string): string | undefined {
   return latestReply;
 }
 
+// Rollouts log each prompt both as a "user_message" event and as a user message item, which
+// also carries injected context, so the items are only used for logs without the events.
+// Replies are likewise logged as an event and an item; repeats within a turn are dropped.
+function parseRolloutTranscript(content: string): AgentTranscriptEntry[] {
+  const hasUserMessageEvents = content.includes('"user_message"');
+  const entries: AgentTranscriptEntry[] = [];
+  const seenCallIds = new Set<string>();
+  const commandsByCallId = new Map<string, AgentTranscriptCommand>();
+  let turnReplies = new Set<string>();
+  let turnStartUsage: AgentTokenUsage | undefined;
+  let latestUsage: AgentTokenUsage | undefined;
+  const flushTurnUsage = (): void => {
+    if (
+      turnStartUsage &&
+      latestUsage &&
+      latestUsage.totalTokens > turnStartUsage.totalTokens
+    ) {
+      entries.push({
+        kind: "token_usage",
+        usage: subtractTokenUsage(latestUsage, turnStartUsage),
+      });
+    }
+
+    turnStartUsage = latestUsage;
+  };
+
+  for (const line of content.split("\n")) {
+    const record = asRecord(parseJsonLine(line));
+
+    if (!record) {
+      continue;
+    }
+
+    const payload = asRecord(record.payload ?? record.msg ?? record.item) ?? record;
+    const timestamp = asString(record.timestamp);
+    const prompt = hasUserMessageEvents
+      ? parseUserMessageEvent(payload)
+      : parseUserMessageItem(payload);
+
+    if (prompt) {
+      flushTurnUsage();
+      turnReplies = new Set();
+      entries.push({ kind: "prompt", text: prompt, timestamp });
+      continue;
+    }
+
+    const reply = parseAssistantReplyFromJsonObject(payload);
+
+    if (reply) {
+      if (!turnReplies.has(reply)) {
+        turnReplies.add(reply);
+        entries.push({ kind: "reply", text: reply, timestamp });
+      }
+
+      continue;
+    }
+
+    const info = asRecord(extractTokenCountValue(record));
+    const total = normalizeTokenUsage(info?.total_token_usage);
+
+    if (total) {
+      if (!turnStartUsage) {
+        const last = normalizeTokenUsage(info?.last_token_usage);
+        turnStartUsage = last ? subtractTokenUsage(total, last) : total;
+      }
+
+      latestUsage = total;
+      continue;
+    }
+
+    const callId = asString(payload.call_id);
+
+    // Outputs and end events of a call already in the transcript only add its results.
+    if (callId && seenCallIds.has(callId)) {
+      const command = commandsByCallId.get(callId);
+
+      if (command) {
+        applyRolloutCommandOutput(command, payload);
+      }
+
+      continue;
+    }
+
+    const patch = parseRolloutPatch(payload);
+
+    if (patch) {
+      entries.push({ kind: "patch", patch, timestamp });
+
+      if (callId) {
+        seenCallIds.add(callId);
+      }
+
+      continue;
+    }
+
+    const commandLine = parseRolloutCommand(payload);
+
+    if (commandLine) {
+      const command: AgentTranscriptCommand = {
+        kind: "command",
+        command: commandLine,
+        timestamp,
+      };
+      applyRolloutCommandOutput(command, payload);
+      entries.push(command);
+
+      if (callId) {
+        seenCallIds.add(callId);
+        commandsByCallId.set(callId, command);
+      }
+    }
+  }
+
+  flushTurnUsage();
+  return entries;
+}
+
+// A turn is a user prompt plus the last assistant reply before the next prompt.
+function parseRolloutHistory(content: string): AgentHistoryTurn[] {
+  const turns: AgentHistoryTurn[] = [];
+
+  for (const entry of parseRolloutTranscript(content)) {
+    if (entry.kind === "prompt") {
+      turns.push({ prompt: entry.text, timestamp: entry.timestamp });
+      continue;
+    }
+
+    const currentTurn = turns.at(-1);
+
+    if (entry.kind === "reply" && currentTurn) {
+      currentTurn.reply = entry.text;
+    }
+  }
+
+  return turns;
+}
+
+// Shell calls are logged as function_call items (arguments JSON with a command) or
+// local_shell_call items, and by some CLI versions also as exec_command_end events.
+function parseRolloutCommand(record: Record<string, unknown>): string | undefined {
+  if (record.type === "exec_command_end") {
+    return formatCommandValue(record.command);
+  }
+
+  if (record.type === "local_shell_call") {
+    return formatCommandValue(asRecord(record.action)?.command);
+  }
+
+  if (record.type !== "function_call") {
+    return undefined;
+  }
+
+  const args = asRecord(parseJsonLine(asString(record.arguments) ?? ""));
+  return formatCommandValue(args?.command ?? args?.cmd);
+}
+
+function applyRolloutCommandOutput(
+  command: AgentTranscriptCommand,
+  record: Record<string, unknown>,
+): void {
+  if (record.type === "exec_command_end") {
+    command.exitCode = asFiniteNumber(record.exit_code);
+    command.output = asString(record.aggregated_output) ?? asString(record.stdout);
+    return;
+  }
+
+  if (record.type !== "function_call_output") {
+    return;
+  }
+
+  // The output is either plain text or JSON carrying the text and the exit code.
+  const rawOutput = asString(record.output) ?? asString(asRecord(record.output)?.content);
+  const structured = asRecord(parseJsonLine(rawOutput ?? ""));
+
+  command.output = structured ? asString(structured.output) : rawOutput;
+  command.exitCode = asFiniteNumber(asRecord(structured?.metadata)?.exit_code);
+}
+
+function parseRolloutPatch(record: Record<string, unknown>): string | undefined {
+  if (record.type === "custom_tool_call" && record.name === "apply_patch") {
+    return asString(record.input);
+  }
+
+  if (record.type === "function_call" && record.name === "apply_patch") {
+    const args = asRecord(parseJsonLine(asString(record.arguments) ?? ""));
+    return asString(args?.input) ?? asString(args?.patch);
+  }
+
+  if (record.type === "patch_apply_begin") {
+    const changedPaths = Object.keys(asRecord(record.changes) ?? {});
+    return changedPaths.length > 0 ? changedPaths.join("\n") : undefined;
+  }
+
+  return undefined;
+}
+
+function parseUserMessageEvent(record: Record<string, unknown>): string | undefined {
+  return record.type === "user_message" ? asString(record.message) : undefined;
+}
+
+function parseUserMessageItem(record: Record<string, unknown>): string | undefined {
+  if (
+    record.type !== "message" ||
+    record.role !== "user" ||
+    !Array.isArray(record.content)
+  ) {
+    return undefined;
+  }
+
+  const textParts: string[] = [];
+
+  for (const item of record.content) {
+    const text = asString(asRecord(item)?.text);
+
+    if (text && !text.startsWith("<")) {
+      textParts.push(text);
+    }
+  }
+
+  return textParts.join("\n") || undefined;
+}
+
 function parseAssistantReplyFromJsonObject(
   record: Record<string, unknown>,
 ): string | undefined {
   if (record.type === "agent_message") {
-    return asString(record.message);
+    return asString(record.message) ?? asString(record.text);
   }
 
   if (record.type !== "message") {
@@ -583,6 +918,111 @@ function parseAssistantReplyFromJsonObject(
   return textParts.join("\n").trim() || undefined;
 }
 
+function parseTurnProgressEvent(line: string): AgentTurnProgress | undefined {
+  const parsed = parseJsonLine(line);
+
+  if (!parsed || typeof parsed !== "object") {
+    return undefined;
+  }
+
+  const record = parsed as Record<string, unknown>;
+  const item = asRecord(record.item);
+
+  if (item && (record.type === "item.started" || record.type === "item.completed")) {
+    return parseTurnProgressItem(item, record.type === "item.completed");
+  }
+
+  // Older CLI builds wrap protocol events in "msg"; rollout logs use "payload".
+  const event = asRecord(record.msg) ?? asRecord(record.payload) ?? record;
+
+  switch (event.type) {
+    case "agent_message": {
+      const text = asString(event.message);
+      return text ? { kind: "agent_message", text } : undefined;
+    }
+    case "agent_reasoning": {
+      const text = asString(event.text);
+      return text ? { kind: "reasoning", text } : undefined;
+    }
+    case "exec_command_begin": {
+      const command = formatCommandValue(event.command);
+      return command ? { kind: "command", command, status: "started" } : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function parseTurnProgressItem(
+  item: Record<string, unknown>,
+  completed: boolean,
+): AgentTurnProgress | undefined {
+  switch (item.type) {
+    case "agent_message": {
+      const text = asString(item.text);
+      return completed && text ? { kind: "agent_message", text } : undefined;
+    }
+    case "reasoning": {
+      const text = asString(item.text);
+      return completed && text ? { kind: "reasoning", text } : undefined;
+    }
+    case "command_execution": {
+      const command = formatCommandValue(item.command);
+
+      if (!command) {
+        return undefined;
+      }
+
+      return {
+        kind: "command",
+        command,
+        status: completed ? "completed" : "started",
+        exitCode: asFiniteNumber(item.exit_code),
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+function formatCommandValue(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const parts = value.filter((part): part is string => typeof part === "string");
+    return asString(parts.join(" "));
+  }
+
+  return asString(value);
+}
+
+// Usage-limit failures become RateLimitExceededError so the bridge can hold the prompt
+// until the exhausted window resets: a reported window at 100%, or Codex's usage-limit
+// error. Every other failure, transient rate limiting included, is a normal error.
+function buildCodexFailure(result: ProcessResult, rateLimits?: AgentRateLimits): Error {
+  const message = buildCodexFailureMessage(result);
+  const resetsAt = rateLimits ? findExhaustedResetTime(rateLimits) : undefined;
+
+  if (
+    typeof resetsAt === "number" ||
+    CODEX_USAGE_LIMIT_PATTERN.test(`${result.stdout}\n${result.stderr}`)
+  ) {
+    return new RateLimitExceededError(
+      message,
+      resetsAt,
+      rateLimits,
+      toProcessOutcome(result),
+    );
+  }
+
+  return new AgentProcessError(message, toProcessOutcome(result));
+}
+
+function toProcessOutcome(result: ProcessResult): AgentProcessOutcome {
+  return {
+    exitCode: result.exitCode,
+    timedOut: result.timedOut,
+  };
+}
+
 function buildCodexFailureMessage(result: ProcessResult): string {
   const stderr = result.stderr
     .replace(/\r/g, "")
@@ -601,8 +1041,8 @@ function buildCodexFailureMessage(result: ProcessResult): string {
   return `Codex command failed (exit ${result.exitCode}): ${detail}`;
 }
 
-function parseRateLimits(output: string): CodexRateLimits | undefined {
-  let latest: CodexRateLimits | undefined;
+function parseRateLimits(output: string): AgentRateLimits | undefined {
+  let latest: AgentRateLimits | undefined;
 
   for (const line of output.split("\n")) {
     const parsed = parseJsonLine(line);
@@ -630,8 +1070,8 @@ function parseRateLimits(output: string): CodexRateLimits | undefined {
   return latest;
 }
 
-function parseContextWindow(output: string): CodexContextWindow | undefined {
-  let latest: CodexContextWindow | undefined;
+function parseContextWindow(output: string): AgentContextWindow | undefined {
+  let latest: AgentContextWindow | undefined;
 
   for (const line of output.split("\n")) {
     const parsed = parseJsonLine(line);
@@ -659,115 +1099,98 @@ function parseContextWindow(output: string): CodexContextWindow | undefined {
   return latest;
 }
 
-async function captureSessionLogSnapshot(): Promise<SessionLogSnapshot> {
-  const latestFilePath = await findLatestSessionLogFile();
+// Per-turn usage is the growth of the cumulative `total_token_usage` over the turn, so
+// repeated token_count events are not double counted. `codex exec --json` builds that
+// report usage on `turn.completed` instead.
+function parseTokenUsage(output: string): AgentTokenUsage | undefined {
+  let turnStart: AgentTokenUsage | undefined;
+  let latestTotal: AgentTokenUsage | undefined;
+  let completedUsage: AgentTokenUsage | undefined;
 
-  if (!latestFilePath) {
-    return {
-      lineCount: 0,
-    };
-  }
+  for (const line of output.split("\n")) {
+    const parsed = asRecord(parseJsonLine(line));
 
-  const lineCount = await countFileLines(latestFilePath);
+    if (!parsed) {
+      continue;
+    }
 
-  return {
-    latestFilePath,
-    lineCount,
-  };
-}
+    if (parsed.type === "turn.completed") {
+      const usage = normalizeTokenUsage(parsed.usage);
 
-async function readSessionLogDelta(snapshot: SessionLogSnapshot): Promise<string> {
-  const latestFilePath = await findLatestSessionLogFile();
+      if (usage) {
+        completedUsage = completedUsage ? addTokenUsage(completedUsage, usage) : usage;
+      }
 
-  if (!latestFilePath) {
-    return "";
-  }
+      continue;
+    }
 
-  let content: string;
+    const info = asRecord(extractTokenCountValue(parsed));
+    const total = normalizeTokenUsage(info?.total_token_usage);
 
-  try {
-    content = await readFile(latestFilePath, "utf8");
-  } catch {
-    return "";
-  }
+    if (!total) {
+      continue;
+    }
 
-  const lines = content.split("\n");
+    if (!turnStart) {
+      const last = normalizeTokenUsage(info?.last_token_usage);
+      turnStart = last ? subtractTokenUsage(total, last) : total;
+    }
 
-  if (snapshot.latestFilePath === latestFilePath) {
-    return lines.slice(snapshot.lineCount).join("\n");
+    latestTotal = total;
   }
 
-  return lines.join("\n");
-}
-
-async function findLatestSessionLogFile(): Promise<string | undefined> {
-  const files = await collectSessionLogFiles(CODEX_SESSION_LOG_ROOT);
-
-  if (files.length === 0) {
-    return undefined;
+  if (completedUsage) {
+    return completedUsage;
   }
 
-  let latestPath: string | undefined;
-  let latestMtime = -1;
-
-  for (const filePath of files) {
-    try {
-      const details = await stat(filePath);
-      const mtimeMs = details.mtimeMs;
-
-      if (mtimeMs > latestMtime) {
-        latestMtime = mtimeMs;
-        latestPath = filePath;
-      }
-    } catch {
-      // Ignore files deleted or inaccessible between listing and stat.
-    }
-  }
-
-  return latestPath;
+  return turnStart && latestTotal ? subtractTokenUsage(latestTotal, turnStart) : undefined;
 }
 
-async function collectSessionLogFiles(directory: string): Promise<string[]> {
-  let entries;
+function normalizeTokenUsage(value: unknown): AgentTokenUsage | undefined {
+  const record = asRecord(value);
+  const inputTokens = asFiniteNumber(record?.input_tokens);
+  const outputTokens = asFiniteNumber(record?.output_tokens);
 
-  try {
-    entries = await readdir(directory, {
-      withFileTypes: true,
-    });
-  } catch {
-    return [];
+  if (typeof inputTokens === "undefined" || typeof outputTokens === "undefined") {
+    return undefined;
   }
 
-  const files: string[] = [];
-
-  for (const entry of entries) {
-    const entryPath = join(directory, entry.name);
-
-    if (entry.isDirectory()) {
-      files.push(...(await collectSessionLogFiles(entryPath)));
-      continue;
-    }
-
-    if (entry.isFile() && entry.name.endsWith(".jsonl")) {
-      files.push(entryPath);
-    }
-  }
+  return {
+    inputTokens,
+    cachedInputTokens: asFiniteNumber(record?.cached_input_tokens) ?? 0,
+    outputTokens,
+    reasoningOutputTokens: asFiniteNumber(record?.reasoning_output_tokens) ?? 0,
+    totalTokens: asFiniteNumber(record?.total_tokens) ?? inputTokens + outputTokens,
+  };
+}
 
-  return files;
+function addTokenUsage(a: AgentTokenUsage, b: AgentTokenUsage): AgentTokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningOutputTokens: a.reasoningOutputTokens + b.reasoningOutputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
 }
 
-async function countFileLines(filePath: string): Promise<number> {
-  try {
-    const content = await readFile(filePath, "utf8");
-    return content.split("\n").length;
-  } catch {
-    return 0;
-  }
+function subtractTokenUsage(a: AgentTokenUsage, b: AgentTokenUsage): AgentTokenUsage {
+  return {
+    inputTokens: Math.max(0, a.inputTokens - b.inputTokens),
+    cachedInputTokens: Math.max(0, a.cachedInputTokens - b.cachedInputTokens),
+    outputTokens: Math.max(0, a.outputTokens - b.outputTokens),
+    reasoningOutputTokens: Math.max(0, a.reasoningOutputTokens - b.reasoningOutputTokens),
+    totalTokens: Math.max(0, a.totalTokens - b.totalTokens),
+  };
 }
 
 function extractTokenCountInfo(
   event: Record<string, unknown>,
 ): { totalTokens: number; maxTokens: number } | undefined {
+  return normalizeTokenCountInfo(extractTokenCountValue(event));
+}
+
+function extractTokenCountValue(event: Record<string, unknown>): unknown {
   const directInfo = event.type === "token_count" ? event.info : undefined;
   const payloadValue = event.payload;
   const payload =
@@ -776,7 +1199,7 @@ function extractTokenCountInfo(
       : undefined;
   const payloadInfo = payload?.type === "token_count" ? payload.info : undefined;
 
-  return normalizeTokenCountInfo(directInfo ?? payloadInfo);
+  return directInfo ?? payloadInfo;
 }
 
 function normalizeTokenCountInfo(
@@ -809,7 +1232,7 @@ function normalizeTokenCountInfo(
   };
 }
 
-function normalizeRateLimits(value: unknown): CodexRateLimits | undefined {
+function normalizeRateLimits(value: unknown): AgentRateLimits | undefined {
   if (!value || typeof value !== "object") {
     return undefined;
   }
@@ -836,7 +1259,7 @@ function normalizeRateLimits(value: unknown): CodexRateLimits | undefined {
   };
 }
 
-function normalizeRateLimitWindow(value: unknown): CodexRateLimitWindow | undefined {
+function normalizeRateLimitWindow(value: unknown): AgentRateLimitWindow | undefined {
   if (!value || typeof value !== "object") {
     return undefined;
   }
@@ -861,7 +1284,7 @@ function normalizeRateLimitWindow(value: unknown): CodexRateLimitWindow | undefi
   };
 }
 
-function normalizeCredits(value: unknown): CodexCredits | undefined {
+function normalizeCredits(value: unknown): AgentCredits | undefined {
   if (!value || typeof value !== "object") {
     return undefined;
   }
@@ -905,6 +1328,14 @@ function asString(value: unknown): string | undefined {
   return trimmed || undefined;
 }
 
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value as Record<string, unknown>;
+}
+
 function asStringOrNull(value: unknown): string | null | undefined {
   if (value === null) {
     return null;
@@ -951,7 +1382,26 @@ async function readAssistantReply(
     // Fallback to stream parsing for older/newer CLI behavior differences.
   }
 
-  return parseAssistantReply(combinedOutput);
+  return (
+    parseAssistantReplyFromJsonEvents(combinedOutput) ??
+    parseAssistantReply(combinedOutput)
+  );
+}
+
+async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return undefined;
+  }
+}
+
+async function isExistingFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
 }
 
 async function cleanupFile(path: string): Promise<void> {
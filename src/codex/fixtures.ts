@@ -0,0 +1,167 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { ProcessResult } from "../agent/process.ts";
+
+const FIXTURE_VERSION = 1;
+
+export type CodexFixtureMode = "exec" | "interactive";
+
+/**
+ * Everything one Codex turn produced: the argv it ran with, the raw process output, the
+ * `--output-last-message` file (exec) and what the turn appended to the rollout log.
+ */
+export interface CodexTurnFixture {
+  version: number;
+  mode: CodexFixtureMode;
+  recordedAt: string;
+  argv: string[];
+  cwd: string;
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  lastMessage?: string;
+  rolloutDelta?: string;
+}
+
+export type CodexTurnRecording = Omit<CodexTurnFixture, "version" | "recordedAt">;
+
+export class CodexFixtureRecorder {
+  private readonly directory: string;
+  private sequence = 0;
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async record(recording: CodexTurnRecording): Promise<string> {
+    const recordedAt = new Date();
+    const fixture: CodexTurnFixture = {
+      version: FIXTURE_VERSION,
+      recordedAt: recordedAt.toISOString(),
+      ...recording,
+    };
+    this.sequence += 1;
+    const fileName =
+      `${recordedAt.toISOString().replace(/[:.]/g, "-")}-` +
+      `${String(this.sequence).padStart(4, "0")}-${recording.mode}.json`;
+    const filePath = join(this.directory, fileName);
+
+    await mkdir(this.directory, {
+      recursive: true,
+    });
+    await writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+
+    return filePath;
+  }
+}
+
+/**
+ * Serves recorded turns in place of the Codex CLI. A fixture whose prompt matches the
+ * requested one is preferred; otherwise fixtures of the same mode are handed out in
+ * recording order, each at most once.
+ */
+export class CodexFixtureReplayer {
+  private readonly directory: string;
+  private fixtures?: Promise<Array<CodexTurnFixture & { filePath: string }>>;
+  private readonly usedFiles = new Set<string>();
+
+  constructor(directory: string) {
+    this.directory = resolve(directory);
+  }
+
+  async next(mode: CodexFixtureMode, argv: readonly string[]): Promise<CodexTurnFixture> {
+    const fixtures = await this.loadFixtures();
+    const available = fixtures.filter(
+      (fixture) => fixture.mode === mode && !this.usedFiles.has(fixture.filePath),
+    );
+    const prompt = argv.at(-1);
+    const fixture =
+      available.find((candidate) => candidate.argv.at(-1) === prompt) ?? available[0];
+
+    if (!fixture) {
+      throw new Error(
+        `No recorded Codex ${mode} turns left to replay in ${this.directory}.`,
+      );
+    }
+
+    this.usedFiles.add(fixture.filePath);
+    return fixture;
+  }
+
+  private loadFixtures(): Promise<Array<CodexTurnFixture & { filePath: string }>> {
+    if (!this.fixtures) {
+      this.fixtures = readFixtureDirectory(this.directory);
+    }
+
+    return this.fixtures;
+  }
+}
+
+export function toProcessResult(fixture: CodexTurnFixture): ProcessResult {
+  return {
+    exitCode: fixture.exitCode,
+    stdout: fixture.stdout,
+    stderr: fixture.stderr,
+    timedOut: fixture.timedOut,
+    cancelled: false,
+  };
+}
+
+async function readFixtureDirectory(
+  directory: string,
+): Promise<Array<CodexTurnFixture & { filePath: string }>> {
+  let fileNames: string[];
+
+  try {
+    fileNames = await readdir(directory);
+  } catch {
+    throw new Error(`Codex fixture directory ${directory} does not exist.`);
+  }
+
+  const fixtures: Array<CodexTurnFixture & { filePath: string }> = [];
+
+  for (const fileName of fileNames.filter((name) => name.endsWith(".json")).sort()) {
+    const filePath = join(directory, fileName);
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(await readFile(filePath, "utf8"));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Codex fixture ${filePath} is not valid JSON: ${message}`);
+    }
+
+    if (!isCodexTurnFixture(parsed)) {
+      throw new Error(`Codex fixture ${filePath} is not a recorded Codex turn.`);
+    }
+
+    fixtures.push({ ...parsed, filePath });
+  }
+
+  return fixtures;
+}
+
+function isCodexTurnFixture(candidate: unknown): candidate is CodexTurnFixture {
+  if (!candidate || typeof candidate !== "object") {
+    return false;
+  }
+
+  const fixture = candidate as CodexTurnFixture;
+
+  return (
+    fixture.version === FIXTURE_VERSION &&
+    (fixture.mode === "exec" || fixture.mode === "interactive") &&
+    Array.isArray(fixture.argv) &&
+    fixture.argv.every((arg) => typeof arg === "string") &&
+    typeof fixture.cwd === "string" &&
+    typeof fixture.exitCode === "number" &&
+    typeof fixture.stdout === "string" &&
+    typeof fixture.stderr === "string" &&
+    typeof fixture.timedOut === "boolean" &&
+    (typeof fixture.lastMessage === "undefined" ||
+      typeof fixture.lastMessage === "string") &&
+    (typeof fixture.rolloutDelta === "undefined" ||
+      typeof fixture.rolloutDelta === "string")
+  );
+}
@@ -0,0 +1,226 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { resolveProjectPath } from "../session/project-path.ts";
+import { SessionStore } from "../session/store.ts";
+import type { SessionRecord } from "../session/types.ts";
+import {
+  readRolloutSessionMeta,
+  SessionLogIndex,
+  type RolloutFile,
+} from "./session-logs.ts";
+
+const FIRST_PROMPT_LINE_LIMIT = 500;
+const IMPORTED_TITLE_MAX_LENGTH = 80;
+
+export interface CodexThreadSummary {
+  threadId: string;
+  rolloutPath: string;
+  startedAt: string;
+  updatedAt: string;
+  cwd?: string;
+  firstPrompt?: string;
+}
+
+export interface ImportCodexThreadInput {
+  createdByUserId: string;
+  title?: string;
+  workspaceRoots: readonly string[];
+}
+
+/**
+ * Lists Codex CLI threads found under ~/.codex/sessions, most recently active first.
+ */
+export async function listRecentCodexThreads(
+  limit: number,
+  sessionLogs: SessionLogIndex = new SessionLogIndex(),
+): Promise<CodexThreadSummary[]> {
+  const rollouts = await sessionLogs.listRolloutFiles();
+  const summaries: CodexThreadSummary[] = [];
+
+  for (const rollout of rollouts.slice(0, limit)) {
+    summaries.push(await summarizeRollout(rollout));
+  }
+
+  return summaries;
+}
+
+/**
+ * Finds a thread by its full id or by a prefix that matches exactly one rollout.
+ */
+export async function findCodexThread(
+  threadIdOrPrefix: string,
+  sessionLogs: SessionLogIndex = new SessionLogIndex(),
+): Promise<CodexThreadSummary | undefined> {
+  const query = threadIdOrPrefix.trim().toLowerCase();
+
+  if (!query) {
+    return undefined;
+  }
+
+  const rollouts = await sessionLogs.listRolloutFiles();
+  const exact = rollouts.find((rollout) => rollout.threadId === query);
+
+  if (exact) {
+    return summarizeRollout(exact);
+  }
+
+  const matches = rollouts.filter((rollout) => rollout.threadId.startsWith(query));
+
+  if (matches.length > 1) {
+    throw new Error(
+      `Thread id prefix "${threadIdOrPrefix.trim()}" matches ${matches.length} Codex threads. Use more characters.`,
+    );
+  }
+
+  const [match] = matches;
+  return match ? summarizeRollout(match) : undefined;
+}
+
+export async function importCodexThread(
+  store: SessionStore,
+  thread: CodexThreadSummary,
+  input: ImportCodexThreadInput,
+): Promise<SessionRecord> {
+  if (!thread.cwd) {
+    throw new Error(
+      `Codex thread ${thread.threadId} has no recorded working directory, so it cannot be imported.`,
+    );
+  }
+
+  const project = await resolveProjectPath(thread.cwd, input.workspaceRoots);
+
+  if (!project.exists) {
+    throw new Error(
+      `Codex thread ${thread.threadId} ran in \`${project.path}\`, which no longer exists.`,
+    );
+  }
+
+  return store.createSession({
+    projectPath: project.path,
+    title:
+      input.title?.trim() ||
+      (thread.firstPrompt
+        ? formatCodexThreadPrompt(thread, IMPORTED_TITLE_MAX_LENGTH)
+        : undefined),
+    createdByUserId: input.createdByUserId,
+    codexThreadId: thread.threadId,
+    codexRolloutPath: thread.rolloutPath,
+  });
+}
+
+export function formatCodexThreadPrompt(
+  thread: CodexThreadSummary,
+  maxLength: number,
+): string {
+  const prompt = (thread.firstPrompt ?? "").replace(/\s+/g, " ").trim();
+
+  if (!prompt) {
+    return "(no prompt)";
+  }
+
+  return prompt.length > maxLength ? `${prompt.slice(0, maxLength - 1)}…` : prompt;
+}
+
+async function summarizeRollout(rollout: RolloutFile): Promise<CodexThreadSummary> {
+  const meta = await readRolloutSessionMeta(rollout.filePath);
+  const updatedAt = new Date(rollout.mtimeMs).toISOString();
+  const startedAt =
+    typeof meta?.timestamp === "string" && !Number.isNaN(Date.parse(meta.timestamp))
+      ? new Date(meta.timestamp).toISOString()
+      : updatedAt;
+  const summary: CodexThreadSummary = {
+    threadId: rollout.threadId,
+    rolloutPath: rollout.filePath,
+    startedAt,
+    updatedAt,
+  };
+
+  if (typeof meta?.cwd === "string" && meta.cwd) {
+    summary.cwd = meta.cwd;
+  }
+
+  const firstPrompt = await readFirstUserPrompt(rollout.filePath);
+
+  if (firstPrompt) {
+    summary.firstPrompt = firstPrompt;
+  }
+
+  return summary;
+}
+
+// Rollouts record each prompt twice: as a "user_message" event, and as a user message item
+// that is also used for injected context such as <environment_context>. The event is
+// preferred; the item is only a fallback for older logs that lack it.
+async function readFirstUserPrompt(filePath: string): Promise<string | undefined> {
+  const stream = createReadStream(filePath, { encoding: "utf8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+  let fallback: string | undefined;
+  let lineCount = 0;
+
+  try {
+    for await (const line of lines) {
+      lineCount += 1;
+
+      if (lineCount > FIRST_PROMPT_LINE_LIMIT) {
+        break;
+      }
+
+      const payload = parseRolloutPayload(line);
+
+      if (!payload) {
+        continue;
+      }
+
+      if (payload.type === "user_message" && typeof payload.message === "string") {
+        const message = payload.message.trim();
+
+        if (message) {
+          return message;
+        }
+      }
+
+      fallback ??= parseUserMessageItem(payload);
+    }
+  } catch {
+    // An unreadable rollout simply has no prompt to show.
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+
+  return fallback;
+}
+
+function parseRolloutPayload(line: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(line) as Record<string, unknown>;
+    const payload = parsed.payload;
+
+    return payload && typeof payload === "object"
+      ? (payload as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function parseUserMessageItem(payload: Record<string, unknown>): string | undefined {
+  if (
+    payload.type !== "message" ||
+    payload.role !== "user" ||
+    !Array.isArray(payload.content)
+  ) {
+    return undefined;
+  }
+
+  for (const item of payload.content) {
+    const text =
+      item && typeof item === "object" ? (item as Record<string, unknown>).text : undefined;
+
+    if (typeof text === "string" && text.trim() && !text.trim().startsWith("<")) {
+      return text.trim();
+    }
+  }
+
+  return undefined;
+}
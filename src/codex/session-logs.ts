@@ -0,0 +1,399 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { open, readdir, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+
+export const CODEX_SESSION_LOG_ROOT = resolve(homedir(), ".codex", "sessions");
+const ROLLOUT_THREAD_ID_PATTERN =
+  /-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.jsonl$/i;
+const FIRST_LINE_READ_LIMIT = 1024 * 1024;
+const READ_CHUNK_BYTES = 64 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROLLOUT_LISTING_TTL_MS = 10_000;
+
+export interface RolloutFile {
+  threadId: string;
+  filePath: string;
+  mtimeMs: number;
+}
+
+export interface SessionLogSnapshot {
+  filePath?: string;
+  byteOffset: number;
+  capturedAtMs: number;
+}
+
+/**
+ * Maps Codex thread ids to rollout files under ~/.codex/sessions.
+ *
+ * The tree is walked once; after that new rollouts are picked up from the watcher or by
+ * listing only the date directories Codex writes new rollouts into, so lookups do not
+ * slow down as history grows.
+ */
+export class SessionLogIndex {
+  private readonly root: string;
+  private readonly filesByThreadId = new Map<string, string>();
+  private initialScan?: Promise<void>;
+  private watcher?: FSWatcher;
+  private rolloutListing?: { listedAtMs: number; rollouts: Promise<RolloutFile[]> };
+
+  constructor(root: string = CODEX_SESSION_LOG_ROOT) {
+    this.root = root;
+  }
+
+  async findRolloutFileForThread(threadId: string): Promise<string | undefined> {
+    const key = threadId.toLowerCase();
+
+    await this.ensureScanned();
+
+    const known = this.filesByThreadId.get(key);
+
+    if (known && (await isExistingFile(known))) {
+      return known;
+    }
+
+    this.filesByThreadId.delete(key);
+    await this.refreshRecentDirectories(Date.now() - DAY_MS);
+
+    return this.filesByThreadId.get(key);
+  }
+
+  // Only used for brand-new threads, where Codex has not told us the thread id yet: pick the
+  // newest rollout written since the snapshot whose recorded cwd matches this session.
+  async findRolloutFileStartedSince(
+    sinceMs: number,
+    cwd: string,
+  ): Promise<string | undefined> {
+    await this.ensureScanned();
+
+    const files = await this.refreshRecentDirectories(sinceMs);
+    const candidates: Array<{ filePath: string; mtimeMs: number }> = [];
+
+    for (const filePath of files) {
+      try {
+        const details = await stat(filePath);
+
+        if (details.mtimeMs >= sinceMs) {
+          candidates.push({ filePath, mtimeMs: details.mtimeMs });
+        }
+      } catch {
+        // Ignore files deleted or inaccessible between listing and stat.
+      }
+    }
+
+    candidates.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+    for (const candidate of candidates) {
+      const meta = await readRolloutSessionMeta(candidate.filePath);
+      const metaCwd = typeof meta?.cwd === "string" ? meta.cwd : undefined;
+
+      if (metaCwd && resolve(metaCwd) === resolve(cwd)) {
+        return candidate.filePath;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Every known rollout, most recently written first. A listing is reused for a few seconds
+  // so /import autocomplete does not stat the whole history on each keystroke.
+  listRolloutFiles(): Promise<RolloutFile[]> {
+    const now = Date.now();
+
+    if (
+      !this.rolloutListing ||
+      now - this.rolloutListing.listedAtMs > ROLLOUT_LISTING_TTL_MS
+    ) {
+      this.rolloutListing = { listedAtMs: now, rollouts: this.readRolloutFiles() };
+    }
+
+    return this.rolloutListing.rollouts;
+  }
+
+  private async readRolloutFiles(): Promise<RolloutFile[]> {
+    await this.ensureScanned();
+    await this.refreshRecentDirectories(Date.now() - DAY_MS);
+
+    const rollouts: RolloutFile[] = [];
+
+    for (const [threadId, filePath] of this.filesByThreadId) {
+      try {
+        rollouts.push({ threadId, filePath, mtimeMs: (await stat(filePath)).mtimeMs });
+      } catch {
+        // Ignore files deleted or inaccessible since they were indexed.
+      }
+    }
+
+    return rollouts.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  }
+
+  private ensureScanned(): Promise<void> {
+    if (!this.initialScan) {
+      this.initialScan = this.scanAll();
+    }
+
+    return this.initialScan;
+  }
+
+  private async scanAll(): Promise<void> {
+    this.startWatching();
+
+    for (const filePath of await collectSessionLogFiles(this.root)) {
+      this.addFile(filePath);
+    }
+  }
+
+  private startWatching(): void {
+    try {
+      this.watcher = watch(this.root, { recursive: true }, (_event, fileName) => {
+        if (fileName && fileName.endsWith(".jsonl")) {
+          this.addFile(join(this.root, fileName));
+        }
+      });
+      this.watcher.on("error", () => {
+        this.watcher?.close();
+        this.watcher = undefined;
+      });
+      this.watcher.unref();
+    } catch {
+      // The sessions directory may not exist yet; recent-directory refreshes cover new files.
+      this.watcher = undefined;
+    }
+  }
+
+  private async refreshRecentDirectories(sinceMs: number): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const directory of listDateDirectories(this.root, sinceMs, Date.now())) {
+      for (const filePath of await collectSessionLogFiles(directory)) {
+        this.addFile(filePath);
+        files.push(filePath);
+      }
+    }
+
+    return files;
+  }
+
+  private addFile(filePath: string): void {
+    const threadId = parseRolloutThreadId(filePath);
+
+    if (threadId) {
+      this.filesByThreadId.set(threadId, filePath);
+    }
+  }
+}
+
+export function parseRolloutThreadId(filePath: string): string | undefined {
+  return ROLLOUT_THREAD_ID_PATTERN.exec(basename(filePath))?.[1]?.toLowerCase();
+}
+
+export function isRolloutFileForThread(filePath: string, threadId: string): boolean {
+  return parseRolloutThreadId(filePath) === threadId.toLowerCase();
+}
+
+export async function captureSessionLogSnapshot(
+  filePath: string | undefined,
+): Promise<SessionLogSnapshot> {
+  const capturedAtMs = Date.now();
+
+  if (!filePath) {
+    return {
+      byteOffset: 0,
+      capturedAtMs,
+    };
+  }
+
+  let byteOffset = 0;
+
+  try {
+    byteOffset = (await stat(filePath)).size;
+  } catch {
+    // A missing file is read from the start once Codex creates it.
+  }
+
+  return {
+    filePath,
+    byteOffset,
+    capturedAtMs,
+  };
+}
+
+export async function readSessionLogDelta(
+  snapshot: SessionLogSnapshot,
+  filePath: string,
+): Promise<string> {
+  const offset = snapshot.filePath === filePath ? snapshot.byteOffset : 0;
+  return readFileFromOffset(filePath, offset);
+}
+
+export async function readRolloutSessionMeta(
+  filePath: string,
+): Promise<Record<string, unknown> | undefined> {
+  const firstLine = await readFirstLine(filePath);
+
+  if (!firstLine) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(firstLine) as Record<string, unknown>;
+    const payload = parsed.payload;
+
+    if (parsed.type !== "session_meta" || !payload || typeof payload !== "object") {
+      return undefined;
+    }
+
+    return payload as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function collectSessionLogFiles(directory: string): Promise<string[]> {
+  let entries;
+
+  try {
+    entries = await readdir(directory, {
+      withFileTypes: true,
+    });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      files.push(...(await collectSessionLogFiles(entryPath)));
+      continue;
+    }
+
+    if (entry.isFile() && entry.name.endsWith(".jsonl")) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+// Codex files rollouts under YYYY/MM/DD of their start time. Local and UTC dates are both
+// listed so a timezone offset never hides a directory.
+function listDateDirectories(root: string, fromMs: number, toMs: number): string[] {
+  const directories = new Set<string>();
+
+  for (let time = fromMs - DAY_MS / 2; time <= toMs + DAY_MS / 2; time += DAY_MS / 2) {
+    const date = new Date(time);
+
+    directories.add(
+      join(
+        root,
+        String(date.getFullYear()),
+        padDatePart(date.getMonth() + 1),
+        padDatePart(date.getDate()),
+      ),
+    );
+    directories.add(
+      join(
+        root,
+        String(date.getUTCFullYear()),
+        padDatePart(date.getUTCMonth() + 1),
+        padDatePart(date.getUTCDate()),
+      ),
+    );
+  }
+
+  return [...directories];
+}
+
+function padDatePart(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+async function isExistingFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function readFileFromOffset(filePath: string, offset: number): Promise<string> {
+  let handle;
+
+  try {
+    handle = await open(filePath, "r");
+  } catch {
+    return "";
+  }
+
+  try {
+    const { size } = await handle.stat();
+    const start = offset <= size ? offset : 0;
+    const buffer = Buffer.alloc(size - start);
+    let position = 0;
+
+    while (position < buffer.length) {
+      const { bytesRead } = await handle.read(
+        buffer,
+        position,
+        buffer.length - position,
+        start + position,
+      );
+
+      if (bytesRead === 0) {
+        break;
+      }
+
+      position += bytesRead;
+    }
+
+    return buffer.subarray(0, position).toString("utf8");
+  } catch {
+    return "";
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readFirstLine(filePath: string): Promise<string | undefined> {
+  let handle;
+
+  try {
+    handle = await open(filePath, "r");
+  } catch {
+    return undefined;
+  }
+
+  try {
+    const chunks: Buffer[] = [];
+    let totalBytes = 0;
+
+    while (totalBytes < FIRST_LINE_READ_LIMIT) {
+      const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, totalBytes);
+
+      if (bytesRead === 0) {
+        break;
+      }
+
+      const chunk = buffer.subarray(0, bytesRead);
+      const newlineIndex = chunk.indexOf(0x0a);
+
+      if (newlineIndex !== -1) {
+        chunks.push(chunk.subarray(0, newlineIndex));
+        break;
+      }
+
+      chunks.push(chunk);
+      totalBytes += bytesRead;
+    }
+
+    return Buffer.concat(chunks).toString("utf8").trim() || undefined;
+  } catch {
+    return undefined;
+  } finally {
+    await handle.close();
+  }
+}
@@ -5,10 +5,41 @@ import { dirname, resolve } from "node:path";
 export interface BotConfig {
   token: string;
   stateFilePath: string;
+  usageLedgerFilePath: string;
+  auditLogFilePath: string;
   guildId?: string;
   categoryId?: string;
   dmAllowlistUserIds: string[];
+  codexModels: string[];
+  attachmentMaxBytes: number;
+  // Replies longer than this many characters are uploaded as a Markdown file.
+  replyAttachmentThreshold: number;
+  agentBackends: Record<string, CommandTemplateBackendConfig>;
+  maxConcurrentTurns?: number;
+  maxConcurrentTurnsPerProject?: number;
+  rateLimitWarningPercent: number;
   channelModeEnabled: boolean;
+  // Absolute directories new session projects must live under; empty allows any path.
+  workspaceRoots: string[];
+  // Template name to the directory copied into a new project by `/new template:<name>`.
+  projectTemplates: Record<string, string>;
+  permissions: PermissionsConfig;
+}
+
+export interface PermissionsConfig {
+  // Admins may use every session and take owner-only actions on any of them.
+  adminUserIds: string[];
+  adminRoleIds: string[];
+  // Project path to the role IDs whose members may use sessions under it. Projects not
+  // listed here are open to everyone who can reach the bot.
+  projectRoleIds: Record<string, string[]>;
+}
+
+export interface CommandTemplateBackendConfig {
+  command: string[];
+  resumeCommand?: string[];
+  threadIdPattern?: string;
+  timeoutMs?: number;
 }
 
 export interface ChannelEnabledBotConfig extends BotConfig {
@@ -23,7 +54,19 @@ interface BotConfigFile {
   guildId?: unknown;
   categoryId?: unknown;
   stateFilePath?: unknown;
+  usageLedgerFilePath?: unknown;
+  auditLogFilePath?: unknown;
   dmAllowlistUserIds?: unknown;
+  codexModels?: unknown;
+  attachmentMaxBytes?: unknown;
+  replyAttachmentThreshold?: unknown;
+  agentBackends?: unknown;
+  maxConcurrentTurns?: unknown;
+  maxConcurrentTurnsPerProject?: unknown;
+  rateLimitWarningPercent?: unknown;
+  workspaceRoots?: unknown;
+  projectTemplates?: unknown;
+  permissions?: unknown;
 }
 
 export interface WritableBotConfig {
@@ -40,6 +83,13 @@ const DEFAULT_CONFIG_FILE_PATH = resolve(
   "vibecord",
   "config.json",
 );
+const DEFAULT_ATTACHMENT_MAX_BYTES = 64 * 1024;
+// Prompts reach Codex as one argv element, which Linux caps at 128 KB (MAX_ARG_STRLEN).
+// Text attachments together may use this much, leaving room for the message itself.
+export const MAX_INLINE_ATTACHMENT_BYTES = 96 * 1024;
+const DEFAULT_REPLY_ATTACHMENT_THRESHOLD = 8_000;
+const DEFAULT_RATE_LIMIT_WARNING_PERCENT = 90;
+const RESERVED_BACKEND_NAME = "codex";
 const DEFAULT_STATE_FILE_PATH = resolve(
   homedir(),
   ".local",
@@ -147,16 +197,82 @@ export async function loadBotConfig(configFilePath?: string): Promise<BotConfig>
     parsed.dmAllowlistUserIds,
     resolvedConfigFilePath,
   );
+  const codexModels = parseStringList(
+    parsed.codexModels,
+    resolvedConfigFilePath,
+    "codexModels",
+    "model name",
+  );
+  const attachmentMaxBytes =
+    parsePositiveInteger(
+      parsed.attachmentMaxBytes,
+      resolvedConfigFilePath,
+      "attachmentMaxBytes",
+    ) ?? DEFAULT_ATTACHMENT_MAX_BYTES;
+  const replyAttachmentThreshold =
+    parsePositiveInteger(
+      parsed.replyAttachmentThreshold,
+      resolvedConfigFilePath,
+      "replyAttachmentThreshold",
+    ) ?? DEFAULT_REPLY_ATTACHMENT_THRESHOLD;
+  const agentBackends = parseAgentBackends(parsed.agentBackends, resolvedConfigFilePath);
+  const maxConcurrentTurns = parsePositiveInteger(
+    parsed.maxConcurrentTurns,
+    resolvedConfigFilePath,
+    "maxConcurrentTurns",
+  );
+  const maxConcurrentTurnsPerProject = parsePositiveInteger(
+    parsed.maxConcurrentTurnsPerProject,
+    resolvedConfigFilePath,
+    "maxConcurrentTurnsPerProject",
+  );
+  const rateLimitWarningPercent =
+    parsePositiveInteger(
+      parsed.rateLimitWarningPercent,
+      resolvedConfigFilePath,
+      "rateLimitWarningPercent",
+    ) ?? DEFAULT_RATE_LIMIT_WARNING_PERCENT;
+  const workspaceRoots = parseStringList(
+    parsed.workspaceRoots,
+    resolvedConfigFilePath,
+    "workspaceRoots",
+    "directory",
+  ).map((root) => resolve(dirname(resolvedConfigFilePath), root));
+  const projectTemplates = parseProjectTemplates(
+    parsed.projectTemplates,
+    resolvedConfigFilePath,
+  );
+  const permissions = parsePermissions(parsed.permissions, resolvedConfigFilePath);
   const rawStateFilePath = asTrimmedString(parsed.stateFilePath);
   const stateFilePath = resolve(
     dirname(resolvedConfigFilePath),
     rawStateFilePath || DEFAULT_STATE_FILE_PATH,
   );
+  const rawUsageLedgerFilePath = asTrimmedString(parsed.usageLedgerFilePath);
+  const usageLedgerFilePath = rawUsageLedgerFilePath
+    ? resolve(dirname(resolvedConfigFilePath), rawUsageLedgerFilePath)
+    : resolve(dirname(stateFilePath), "usage.jsonl");
+  const rawAuditLogFilePath = asTrimmedString(parsed.auditLogFilePath);
+  const auditLogFilePath = rawAuditLogFilePath
+    ? resolve(dirname(resolvedConfigFilePath), rawAuditLogFilePath)
+    : resolve(dirname(stateFilePath), "audit.jsonl");
 
   if (!token) {
     throw new Error(`Config ${resolvedConfigFilePath} is missing "discordBotToken".`);
   }
 
+  if (attachmentMaxBytes > MAX_INLINE_ATTACHMENT_BYTES) {
+    throw new Error(
+      `Config ${resolvedConfigFilePath} has invalid "attachmentMaxBytes". Use at most ${MAX_INLINE_ATTACHMENT_BYTES}; prompts are passed as a single argument, which Linux caps at 128 KB.`,
+    );
+  }
+
+  if (rateLimitWarningPercent > 100) {
+    throw new Error(
+      `Config ${resolvedConfigFilePath} has invalid "rateLimitWarningPercent". Use a value from 1 to 100.`,
+    );
+  }
+
   if (modeValue && modeValue !== "dm" && modeValue !== "channel") {
     throw new Error(
       `Config ${resolvedConfigFilePath} has invalid "mode" value. Use "dm" or "channel".`,
@@ -180,10 +296,22 @@ export async function loadBotConfig(configFilePath?: string): Promise<BotConfig>
   return {
     token,
     stateFilePath,
+    usageLedgerFilePath,
+    auditLogFilePath,
     guildId,
     categoryId,
     dmAllowlistUserIds,
+    codexModels,
+    attachmentMaxBytes,
+    replyAttachmentThreshold,
+    agentBackends,
+    maxConcurrentTurns,
+    maxConcurrentTurnsPerProject,
+    rateLimitWarningPercent,
     channelModeEnabled,
+    workspaceRoots,
+    projectTemplates,
+    permissions,
   };
 }
 
@@ -225,6 +353,15 @@ function normalizeDmAllowlistUserIds(userIds: readonly string[] | undefined): st
 function parseDmAllowlistUserIds(
   value: unknown,
   configPath: string,
+): string[] {
+  return parseStringList(value, configPath, "dmAllowlistUserIds", "user ID");
+}
+
+function parseStringList(
+  value: unknown,
+  configPath: string,
+  key: string,
+  itemLabel: string,
 ): string[] {
   if (typeof value === "undefined") {
     return [];
@@ -232,7 +369,7 @@ function parseDmAllowlistUserIds(
 
   if (!Array.isArray(value)) {
     throw new Error(
-      `Config ${configPath} has invalid "dmAllowlistUserIds". Expected an array of user ID strings.`,
+      `Config ${configPath} has invalid "${key}". Expected an array of ${itemLabel} strings.`,
     );
   }
 
@@ -241,7 +378,7 @@ function parseDmAllowlistUserIds(
   for (const entry of value) {
     if (typeof entry !== "string") {
       throw new Error(
-        `Config ${configPath} has invalid "dmAllowlistUserIds". Every value must be a string.`,
+        `Config ${configPath} has invalid "${key}". Every value must be a string.`,
       );
     }
 
@@ -249,7 +386,7 @@ function parseDmAllowlistUserIds(
 
     if (!trimmed) {
       throw new Error(
-        `Config ${configPath} has invalid "dmAllowlistUserIds". Empty values are not allowed.`,
+        `Config ${configPath} has invalid "${key}". Empty values are not allowed.`,
       );
     }
 
@@ -259,6 +396,224 @@ function parseDmAllowlistUserIds(
   return [...unique];
 }
 
+function parsePositiveInteger(
+  value: unknown,
+  configPath: string,
+  key: string,
+): number | undefined {
+  if (typeof value === "undefined") {
+    return undefined;
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new Error(
+      `Config ${configPath} has invalid "${key}". Expected a positive integer.`,
+    );
+  }
+
+  return value;
+}
+
+function parsePermissions(value: unknown, configPath: string): PermissionsConfig {
+  if (typeof value === "undefined") {
+    return {
+      adminUserIds: [],
+      adminRoleIds: [],
+      projectRoleIds: {},
+    };
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`Config ${configPath} has invalid "permissions". Expected an object.`);
+  }
+
+  const permissions = value as Record<string, unknown>;
+  const rawProjectRoles = permissions.projectRoles;
+  const projectRoleIds: Record<string, string[]> = {};
+
+  if (typeof rawProjectRoles !== "undefined") {
+    if (
+      !rawProjectRoles ||
+      typeof rawProjectRoles !== "object" ||
+      Array.isArray(rawProjectRoles)
+    ) {
+      throw new Error(
+        `Config ${configPath} has invalid "permissions.projectRoles". Expected an object mapping project paths to role ID lists.`,
+      );
+    }
+
+    for (const [rawProjectPath, rawRoleIds] of Object.entries(rawProjectRoles)) {
+      const projectPath = rawProjectPath.trim();
+      const key = `permissions.projectRoles.${rawProjectPath}`;
+      const roleIds = parseStringList(rawRoleIds, configPath, key, "role ID");
+
+      if (!projectPath) {
+        throw new Error(
+          `Config ${configPath} has invalid "permissions.projectRoles". Project paths cannot be empty.`,
+        );
+      }
+
+      if (roleIds.length === 0) {
+        throw new Error(
+          `Config ${configPath} has invalid "${key}". List at least one role ID.`,
+        );
+      }
+
+      projectRoleIds[resolve(dirname(configPath), projectPath)] = roleIds;
+    }
+  }
+
+  return {
+    adminUserIds: parseStringList(
+      permissions.adminUserIds,
+      configPath,
+      "permissions.adminUserIds",
+      "user ID",
+    ),
+    adminRoleIds: parseStringList(
+      permissions.adminRoleIds,
+      configPath,
+      "permissions.adminRoleIds",
+      "role ID",
+    ),
+    projectRoleIds,
+  };
+}
+
+// Template directories resolve relative to the config file, like the other paths in it.
+function parseProjectTemplates(
+  value: unknown,
+  configPath: string,
+): Record<string, string> {
+  if (typeof value === "undefined") {
+    return {};
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `Config ${configPath} has invalid "projectTemplates". Expected an object mapping template names to directories.`,
+    );
+  }
+
+  const templates: Record<string, string> = {};
+
+  for (const [rawName, rawDirectory] of Object.entries(value)) {
+    const name = rawName.trim();
+    const directory = asTrimmedString(rawDirectory);
+
+    if (!name) {
+      throw new Error(
+        `Config ${configPath} has invalid "projectTemplates". Template names cannot be empty.`,
+      );
+    }
+
+    if (!directory) {
+      throw new Error(
+        `Config ${configPath} has invalid "projectTemplates.${rawName}". Expected a directory path.`,
+      );
+    }
+
+    templates[name] = resolve(dirname(configPath), directory);
+  }
+
+  return templates;
+}
+
+function parseAgentBackends(
+  value: unknown,
+  configPath: string,
+): Record<string, CommandTemplateBackendConfig> {
+  if (typeof value === "undefined") {
+    return {};
+  }
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(
+      `Config ${configPath} has invalid "agentBackends". Expected an object keyed by backend name.`,
+    );
+  }
+
+  const backends: Record<string, CommandTemplateBackendConfig> = {};
+
+  for (const [rawName, rawBackend] of Object.entries(value)) {
+    const name = rawName.trim();
+    const key = `agentBackends.${rawName}`;
+
+    if (!name || name === RESERVED_BACKEND_NAME) {
+      throw new Error(
+        `Config ${configPath} has invalid "agentBackends". "${rawName}" cannot be used as a backend name.`,
+      );
+    }
+
+    if (!rawBackend || typeof rawBackend !== "object" || Array.isArray(rawBackend)) {
+      throw new Error(`Config ${configPath} has invalid "${key}". Expected an object.`);
+    }
+
+    const backend = rawBackend as Record<string, unknown>;
+    const command = parseCommandTemplate(backend.command, configPath, `${key}.command`);
+
+    if (!command) {
+      throw new Error(`Config ${configPath} is missing "${key}.command".`);
+    }
+
+    if (!command.some((part) => part.includes("{prompt}"))) {
+      throw new Error(
+        `Config ${configPath} has invalid "${key}.command". Include a "{prompt}" placeholder.`,
+      );
+    }
+
+    const resumeCommand = parseCommandTemplate(
+      backend.resumeCommand,
+      configPath,
+      `${key}.resumeCommand`,
+    );
+    const threadIdPattern = asTrimmedString(backend.threadIdPattern);
+    const timeoutMs = parsePositiveInteger(backend.timeoutMs, configPath, `${key}.timeoutMs`);
+
+    if (threadIdPattern) {
+      try {
+        new RegExp(threadIdPattern);
+      } catch {
+        throw new Error(
+          `Config ${configPath} has invalid "${key}.threadIdPattern". Expected a regular expression.`,
+        );
+      }
+    }
+
+    backends[name] = {
+      command,
+      resumeCommand,
+      threadIdPattern,
+      timeoutMs,
+    };
+  }
+
+  return backends;
+}
+
+function parseCommandTemplate(
+  value: unknown,
+  configPath: string,
+  key: string,
+): string[] | undefined {
+  if (typeof value === "undefined") {
+    return undefined;
+  }
+
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    !value.every((part) => typeof part === "string") ||
+    !value[0]?.trim()
+  ) {
+    throw new Error(
+      `Config ${configPath} has invalid "${key}". Expected a non-empty array of strings starting with the executable.`,
+    );
+  }
+
+  return value;
+}
+
 function isMissingFileError(error: unknown): error is NodeJS.ErrnoException {
   return (
     typeof error === "object" &&
@@ -0,0 +1,271 @@
+import { randomUUID } from "node:crypto";
+import { basename, extname, resolve } from "node:path";
+import { tmpdir } from "node:os";
+import { unlink, writeFile } from "node:fs/promises";
+import type { Attachment, Message } from "discord.js";
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp"]);
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+const TEXT_EXTENSIONS = new Set([
+  ".txt",
+  ".log",
+  ".diff",
+  ".patch",
+  ".md",
+  ".json",
+  ".jsonl",
+  ".yaml",
+  ".yml",
+  ".toml",
+  ".xml",
+  ".csv",
+  ".ini",
+  ".cfg",
+  ".conf",
+  ".ts",
+  ".tsx",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+  ".py",
+  ".rb",
+  ".go",
+  ".rs",
+  ".java",
+  ".kt",
+  ".swift",
+  ".c",
+  ".h",
+  ".cc",
+  ".cpp",
+  ".hpp",
+  ".cs",
+  ".php",
+  ".lua",
+  ".sh",
+  ".bash",
+  ".zsh",
+  ".sql",
+  ".html",
+  ".css",
+  ".scss",
+  ".vue",
+  ".svelte",
+  ".gradle",
+  ".proto",
+]);
+const TEXT_FILE_NAMES = new Set(["dockerfile", "makefile", "readme", "license"]);
+const TEXT_CONTENT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/x-sh",
+  "application/javascript",
+  "application/x-yaml",
+];
+const FENCE_LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ".diff": "diff",
+  ".patch": "diff",
+  ".md": "markdown",
+  ".yml": "yaml",
+  ".mjs": "js",
+  ".cjs": "js",
+  ".sh": "bash",
+  ".zsh": "bash",
+};
+const PLAIN_TEXT_EXTENSIONS = new Set([".txt", ".log", ".ini", ".cfg", ".conf"]);
+
+export interface PromptAttachments {
+  imagePaths: string[];
+  textBlocks: string[];
+  skipped: SkippedAttachment[];
+}
+
+export interface SkippedAttachment {
+  name: string;
+  reason: string;
+}
+
+export interface CollectAttachmentOptions {
+  // Largest single text attachment.
+  maxTextBytes: number;
+  // Budget for the message text and every inlined text attachment together.
+  maxTotalBytes: number;
+}
+
+export function hasAttachments(message: Message): boolean {
+  return message.attachments.size > 0;
+}
+
+export async function collectPromptAttachments(
+  message: Message,
+  options: CollectAttachmentOptions,
+): Promise<PromptAttachments> {
+  const collected: PromptAttachments = {
+    imagePaths: [],
+    textBlocks: [],
+    skipped: [],
+  };
+  let inlinedBytes = Buffer.byteLength(message.content, "utf8");
+  const overBudget = (name: string): void => {
+    collected.skipped.push({
+      name,
+      reason: `the attachments together exceed the ${formatBytes(options.maxTotalBytes)} prompt limit`,
+    });
+  };
+
+  try {
+    for (const attachment of message.attachments.values()) {
+      if (isImageAttachment(attachment)) {
+        if (attachment.size > MAX_IMAGE_BYTES) {
+          collected.skipped.push({
+            name: attachment.name,
+            reason: `image is larger than ${formatBytes(MAX_IMAGE_BYTES)}`,
+          });
+          continue;
+        }
+
+        collected.imagePaths.push(await downloadAttachmentToFile(attachment));
+        continue;
+      }
+
+      if (!isTextAttachment(attachment)) {
+        collected.skipped.push({
+          name: attachment.name,
+          reason: "unsupported file type",
+        });
+        continue;
+      }
+
+      if (attachment.size > options.maxTextBytes) {
+        collected.skipped.push({
+          name: attachment.name,
+          reason: `larger than the ${formatBytes(options.maxTextBytes)} limit`,
+        });
+        continue;
+      }
+
+      if (inlinedBytes + attachment.size > options.maxTotalBytes) {
+        overBudget(attachment.name);
+        continue;
+      }
+
+      const content = await downloadAttachmentText(attachment);
+
+      if (content.includes("\u0000")) {
+        collected.skipped.push({
+          name: attachment.name,
+          reason: "not a text file",
+        });
+        continue;
+      }
+
+      const textBlock = formatTextBlock(attachment.name, content);
+      const textBlockBytes = Buffer.byteLength(textBlock, "utf8");
+
+      if (inlinedBytes + textBlockBytes > options.maxTotalBytes) {
+        overBudget(attachment.name);
+        continue;
+      }
+
+      inlinedBytes += textBlockBytes;
+      collected.textBlocks.push(textBlock);
+    }
+  } catch (error: unknown) {
+    await cleanupAttachmentFiles(collected.imagePaths);
+    throw error;
+  }
+
+  return collected;
+}
+
+export function appendTextBlocks(prompt: string, textBlocks: readonly string[]): string {
+  return [prompt, ...textBlocks].filter(Boolean).join("\n\n");
+}
+
+export function formatSkippedAttachments(skipped: readonly SkippedAttachment[]): string {
+  const lines = skipped.map((item) => `- \`${item.name}\`: ${item.reason}`);
+  return `Skipped attachment(s):\n${lines.join("\n")}`;
+}
+
+export async function cleanupAttachmentFiles(paths: readonly string[]): Promise<void> {
+  await Promise.all(paths.map((path) => unlink(path).catch(() => undefined)));
+}
+
+function isImageAttachment(attachment: Attachment): boolean {
+  if (attachment.contentType?.startsWith("image/")) {
+    return true;
+  }
+
+  return IMAGE_EXTENSIONS.has(extname(attachment.name).toLowerCase());
+}
+
+function isTextAttachment(attachment: Attachment): boolean {
+  const contentType = attachment.contentType?.split(";")[0]?.trim().toLowerCase();
+
+  if (
+    contentType &&
+    (contentType.startsWith("text/") || TEXT_CONTENT_TYPES.includes(contentType))
+  ) {
+    return true;
+  }
+
+  const name = attachment.name.toLowerCase();
+
+  return (
+    TEXT_EXTENSIONS.has(extname(name)) ||
+    TEXT_FILE_NAMES.has(basename(name, extname(name)))
+  );
+}
+
+async function fetchAttachment(attachment: Attachment): Promise<Response> {
+  const response = await fetch(attachment.url);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to download attachment "${attachment.name}" (HTTP ${response.status}).`,
+    );
+  }
+
+  return response;
+}
+
+async function downloadAttachmentToFile(attachment: Attachment): Promise<string> {
+  const response = await fetchAttachment(attachment);
+  const extension = extname(attachment.name).toLowerCase() || ".png";
+  const filePath = resolve(
+    tmpdir(),
+    `vibecord-attachment-${randomUUID()}${extension}`,
+  );
+
+  await writeFile(filePath, Buffer.from(await response.arrayBuffer()));
+
+  return filePath;
+}
+
+async function downloadAttachmentText(attachment: Attachment): Promise<string> {
+  const response = await fetchAttachment(attachment);
+  return (await response.text()).replace(/\r\n/g, "\n");
+}
+
+function formatTextBlock(name: string, content: string): string {
+  const extension = extname(name).toLowerCase();
+  const language = PLAIN_TEXT_EXTENSIONS.has(extension)
+    ? ""
+    : FENCE_LANGUAGE_BY_EXTENSION[extension] ?? extension.slice(1);
+  const longestBacktickRun = (content.match(/`+/g) ?? []).reduce(
+    (longest, run) => Math.max(longest, run.length),
+    0,
+  );
+  const fence = "`".repeat(Math.max(3, longestBacktickRun + 1));
+
+  return `Attachment \`${name}\`:\n${fence}${language}\n${content.trimEnd()}\n${fence}`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+  }
+
+  return `${Math.round(bytes / 1024)} KB`;
+}
@@ -1,15 +1,38 @@
 import { Client, GatewayIntentBits, Partials } from "discord.js";
-import { CodexBridge } from "../codex/bridge.ts";
+import { createAgentBackends } from "../agent/backends.ts";
+import { AgentBridge } from "../agent/bridge.ts";
+import { AuditLog } from "../audit/log.ts";
+import type { CodexBridgeOptions } from "../codex/bridge.ts";
+import { SessionLogIndex } from "../codex/session-logs.ts";
 import { hasChannelMode, loadBotConfig } from "../config.ts";
+import { SessionCheckpoints } from "../git/checkpoints.ts";
 import { SessionStore } from "../session/store.ts";
+import { UsageLedger } from "../usage/ledger.ts";
 import { syncSessionChannels } from "./channel-mode.ts";
 import { attachCommandHandlers, registerCommands } from "./commands.ts";
 import { attachMessageRelay } from "./message-relay.ts";
 
-export async function startDiscordBot(configFilePath?: string): Promise<void> {
+export async function startDiscordBot(
+  configFilePath?: string,
+  codexOptions: CodexBridgeOptions = {},
+): Promise<void> {
   const config = await loadBotConfig(configFilePath);
   const store = new SessionStore(config.stateFilePath);
-  const codex = new CodexBridge(store);
+  const usageLedger = new UsageLedger(config.usageLedgerFilePath);
+  const auditLog = new AuditLog(config.auditLogFilePath);
+  const checkpoints = new SessionCheckpoints(store);
+  const sessionLogs = new SessionLogIndex();
+  const agents = new AgentBridge(
+    store,
+    createAgentBackends(config, store, { ...codexOptions, sessionLogs }),
+    {
+      maxConcurrentTurns: config.maxConcurrentTurns,
+      maxConcurrentTurnsPerProject: config.maxConcurrentTurnsPerProject,
+      usageLedger,
+      checkpoints,
+      auditLog,
+    },
+  );
 
   const client = new Client({
     intents: [
@@ -25,13 +48,18 @@ export async function startDiscordBot(configFilePath?: string): Promise<void> {
     client,
     config,
     store,
-    codex,
+    agents,
+    usageLedger,
+    checkpoints,
+    auditLog,
+    sessionLogs,
   });
   attachMessageRelay({
     client,
     config,
     store,
-    codex,
+    agents,
+    auditLog,
   });
 
   client.once("clientReady", async (readyClient) => {
@@ -1,20 +1,114 @@
+import { basename, resolve } from "node:path";
 import {
+  AttachmentBuilder,
+  AutocompleteInteraction,
   ChatInputCommandInteraction,
   Client,
+  MessageFlags,
   SlashCommandBuilder,
 } from "discord.js";
+import { AgentBridge, type QueuedTurnInfo } from "../agent/bridge.ts";
 import {
-  CodexBridge,
-  type CodexContextWindow,
-  type CodexRateLimits,
-} from "../codex/bridge.ts";
+  TRANSCRIPT_FORMATS,
+  countTranscriptTurns,
+  parseTranscriptFormat,
+  renderTranscript,
+} from "../agent/transcript.ts";
+import {
+  DEFAULT_AGENT_BACKEND,
+  type AgentContextWindow,
+  type AgentRateLimits,
+} from "../agent/types.ts";
+import {
+  AuditLog,
+  formatAuditEntry,
+  parseAuditTime,
+  type AuditCommandOptionValue,
+  type AuditSessionEntry,
+} from "../audit/log.ts";
+import {
+  findCodexThread,
+  formatCodexThreadPrompt,
+  importCodexThread,
+  listRecentCodexThreads,
+  type CodexThreadSummary,
+} from "../codex/session-import.ts";
+import type { SessionLogIndex } from "../codex/session-logs.ts";
 import { hasChannelMode, type BotConfig } from "../config.ts";
+import { SessionCheckpoints } from "../git/checkpoints.ts";
+import { GitRepository } from "../git/repository.ts";
+import {
+  createProjectDirectory,
+  resolveProjectPath,
+  suggestProjectPaths,
+} from "../session/project-path.ts";
 import { SessionStore } from "../session/store.ts";
-import type { SessionRecord } from "../session/types.ts";
+import {
+  UsageLedger,
+  groupUsage,
+  sumUsage,
+  type UsageEntry,
+} from "../usage/ledger.ts";
+import {
+  REASONING_EFFORTS,
+  SANDBOX_MODES,
+  type CheckpointRecord,
+  type SessionRecord,
+} from "../session/types.ts";
 import {
   deleteSessionChannel,
   ensureSessionChannel,
 } from "./channel-mode.ts";
+import { replyWithConfirmation } from "./confirmation.ts";
+import { replyWithHistoryPager } from "./history.ts";
+import {
+  checkAdminAccess,
+  checkOwnerAction,
+  checkProjectAccess,
+  checkSessionAccess,
+  resolvePermissionSubject,
+  type OwnerOnlyAction,
+  type PermissionSubject,
+} from "./permissions.ts";
+import { deliverInteractionReply } from "./reply-delivery.ts";
+
+// Commands that act on one session, named by `session_id` or resolved from the channel or
+// focus. Their access is checked in authorizeCommand.
+const SESSION_COMMANDS = new Set([
+  "delete",
+  "focus",
+  "status",
+  "history",
+  "export",
+  "diff",
+  "gitstatus",
+  "checkpoints",
+  "undo",
+  "compact",
+  "init",
+  "cancel",
+  "queue",
+  "model",
+  "sandbox",
+  "autocompact",
+]);
+const ADMIN_COMMANDS = new Set(["audit"]);
+const DEFAULT_SETTING_VALUE = "default";
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+const MAX_AUTOCOMPLETE_CHOICE_LENGTH = 100;
+const USAGE_TOP_CONSUMERS = 5;
+const IMPORT_LIST_LIMIT = 10;
+const DEFAULT_HISTORY_TURNS_PER_PAGE = 3;
+const INLINE_OUTPUT_LIMIT = 1_800;
+const DEFAULT_AUDIT_ENTRIES = 20;
+const MAX_AUDIT_ENTRIES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_PERIODS: Record<string, { label: string; durationMs?: number }> = {
+  day: { label: "last 24 hours", durationMs: DAY_MS },
+  week: { label: "last 7 days", durationMs: 7 * DAY_MS },
+  month: { label: "last 30 days", durationMs: 30 * DAY_MS },
+  all: { label: "all time" },
+};
 
 const commandBuilders = [
   new SlashCommandBuilder()
@@ -24,6 +118,7 @@ const commandBuilders = [
       option
         .setName("project")
         .setDescription("Project directory/path used to categorize this session")
+        .setAutocomplete(true)
         .setRequired(true),
     )
     .addStringOption((option) =>
@@ -31,6 +126,42 @@ const commandBuilders = [
         .setName("title")
         .setDescription("Optional display title for the session")
         .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("backend")
+        .setDescription("Agent backend for this session (defaults to codex)")
+        .setRequired(false)
+        .setAutocomplete(true),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("create")
+        .setDescription("Create the project directory if it does not exist")
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("template")
+        .setDescription("Scaffold a new project directory from a configured template")
+        .setRequired(false)
+        .setAutocomplete(true),
+    ),
+  new SlashCommandBuilder()
+    .setName("import")
+    .setDescription("Import a Codex CLI session started outside Discord")
+    .addStringOption((option) =>
+      option
+        .setName("thread_id")
+        .setDescription("Codex thread ID or prefix (omit to list recent threads)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("title")
+        .setDescription("Optional session title (defaults to the first prompt)")
+        .setRequired(false),
     ),
   new SlashCommandBuilder()
     .setName("delete")
@@ -39,6 +170,7 @@ const commandBuilders = [
       option
         .setName("session_id")
         .setDescription("Session ID to delete")
+        .setAutocomplete(true)
         .setRequired(true),
     ),
   new SlashCommandBuilder()
@@ -48,6 +180,7 @@ const commandBuilders = [
       option
         .setName("session_id")
         .setDescription("Session ID to focus")
+        .setAutocomplete(true)
         .setRequired(true),
     ),
   new SlashCommandBuilder()
@@ -57,6 +190,7 @@ const commandBuilders = [
       option
         .setName("project")
         .setDescription("Optional project filter")
+        .setAutocomplete(true)
         .setRequired(false),
     ),
   new SlashCommandBuilder()
@@ -66,6 +200,95 @@ const commandBuilders = [
       option
         .setName("session_id")
         .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("history")
+    .setDescription("Page through past prompts and replies of a session")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("turns")
+        .setDescription(`Turns per page (default ${DEFAULT_HISTORY_TURNS_PER_PAGE})`)
+        .setMinValue(1)
+        .setMaxValue(10)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("export")
+    .setDescription("Export a session transcript as a Markdown or JSON file")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("format")
+        .setDescription("Transcript format (default markdown)")
+        .addChoices(...TRANSCRIPT_FORMATS.map((format) => ({ name: format, value: format })))
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("diff")
+    .setDescription("Show uncommitted changes in a session's project")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("path")
+        .setDescription("Optional file or directory to limit the diff to")
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("gitstatus")
+    .setDescription("Show git status of a session's project")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("checkpoints")
+    .setDescription("List the checkpoints taken before each turn of a session")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("undo")
+    .setDescription("Restore a session's project files to an earlier checkpoint")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("steps")
+        .setDescription("How many turns to undo (default 1)")
+        .setMinValue(1)
         .setRequired(false),
     ),
   new SlashCommandBuilder()
@@ -75,6 +298,7 @@ const commandBuilders = [
       option
         .setName("session_id")
         .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
         .setRequired(false),
     ),
   new SlashCommandBuilder()
@@ -84,17 +308,197 @@ const commandBuilders = [
       option
         .setName("session_id")
         .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("cancel")
+    .setDescription("Cancel the running Codex turn for a session")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addBooleanOption((option) =>
+      option
+        .setName("drop_queue")
+        .setDescription("Also drop prompts still waiting in this session's queue")
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("queue")
+    .setDescription("Show prompts waiting in a session's queue")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("remove")
+        .setDescription("Remove the queued prompt at this position")
+        .setMinValue(1)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("model")
+    .setDescription("View or change the Codex model for a session")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("model")
+        .setDescription(`Model name, or "${DEFAULT_SETTING_VALUE}" to use the Codex default`)
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("reasoning_effort")
+        .setDescription("Reasoning effort for this session")
+        .addChoices(
+          ...REASONING_EFFORTS.map((effort) => ({ name: effort, value: effort })),
+          { name: DEFAULT_SETTING_VALUE, value: DEFAULT_SETTING_VALUE },
+        )
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("sandbox")
+    .setDescription("View or change the sandbox mode for a session")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("mode")
+        .setDescription("Sandbox mode for Codex turns")
+        .addChoices(
+          { name: "read-only", value: "read-only" },
+          { name: "workspace-write", value: "workspace-write" },
+          { name: "full-access", value: "danger-full-access" },
+          { name: DEFAULT_SETTING_VALUE, value: DEFAULT_SETTING_VALUE },
+        )
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("autocompact")
+    .setDescription("View or change when a session is compacted automatically")
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Optional session ID (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("threshold")
+        .setDescription("Compact after a turn leaves less than this % of context (0 turns it off)")
+        .setMinValue(0)
+        .setMaxValue(100)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("usage")
+    .setDescription("Show token usage totals and top consumers")
+    .addStringOption((option) =>
+      option
+        .setName("scope")
+        .setDescription("Limit the report to a session, yourself, or a project (defaults to everything)")
+        .addChoices(
+          { name: "session", value: "session" },
+          { name: "user", value: "user" },
+          { name: "project", value: "project" },
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("period")
+        .setDescription("Time window (defaults to the last 7 days)")
+        .addChoices(
+          ...Object.entries(USAGE_PERIODS).map(([value, period]) => ({
+            name: period.label,
+            value,
+          })),
+        )
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Session for session/project scope (defaults to channel-linked or focused)")
+        .setAutocomplete(true)
+        .setRequired(false),
+    ),
+  new SlashCommandBuilder()
+    .setName("audit")
+    .setDescription("Show recent audit log entries (bot admins only)")
+    .addUserOption((option) =>
+      option
+        .setName("user")
+        .setDescription("Only entries for this user")
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("session_id")
+        .setDescription("Only entries for this session")
+        .setAutocomplete(true)
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("since")
+        .setDescription("Start time: ISO date/time, or a duration ago such as 12h or 7d")
+        .setRequired(false),
+    )
+    .addStringOption((option) =>
+      option
+        .setName("until")
+        .setDescription("End time: ISO date/time, or a duration ago such as 1h")
+        .setRequired(false),
+    )
+    .addIntegerOption((option) =>
+      option
+        .setName("limit")
+        .setDescription(`Most recent entries to show (default ${DEFAULT_AUDIT_ENTRIES})`)
+        .setMinValue(1)
+        .setMaxValue(MAX_AUDIT_ENTRIES)
         .setRequired(false),
     ),
 ];
 
 const commandPayload = commandBuilders.map((builder) => builder.toJSON());
 
+interface UsageBreakdown {
+  title: string;
+  keyOf: (entry: UsageEntry) => string | undefined;
+  formatKey: (key: string) => string;
+}
+
 interface CommandContext {
   client: Client;
   config: BotConfig;
   store: SessionStore;
-  codex: CodexBridge;
+  agents: AgentBridge;
+  usageLedger: UsageLedger;
+  checkpoints: SessionCheckpoints;
+  auditLog: AuditLog;
+  sessionLogs: SessionLogIndex;
 }
 
 export async function registerCommands(
@@ -113,6 +517,16 @@ export function attachCommandHandlers(context: CommandContext): void {
   const { client } = context;
 
   client.on("interactionCreate", async (interaction) => {
+    if (interaction.isAutocomplete()) {
+      try {
+        await handleAutocomplete(interaction, context);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`Autocomplete for /${interaction.commandName} failed: ${message}`);
+      }
+      return;
+    }
+
     if (!interaction.isChatInputCommand()) {
       return;
     }
@@ -136,10 +550,34 @@ async function handleCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
+  const { session, denial } = await authorizeCommand(interaction, context);
+
+  context.auditLog.record({
+    kind: "command",
+    userId: interaction.user.id,
+    sessionId: session?.id,
+    projectPath: session?.projectPath,
+    command: interaction.commandName,
+    options: collectCommandOptions(interaction),
+    channelId: interaction.channelId,
+    denied: denial,
+  });
+
+  if (denial) {
+    await interaction.reply({
+      content: denial,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
   switch (interaction.commandName) {
     case "new":
       await handleNewCommand(interaction, context);
       return;
+    case "import":
+      await handleImportCommand(interaction, context);
+      return;
     case "delete":
       await handleDeleteCommand(interaction, context);
       return;
@@ -152,12 +590,51 @@ async function handleCommand(
     case "status":
       await handleStatusCommand(interaction, context);
       return;
+    case "history":
+      await handleHistoryCommand(interaction, context);
+      return;
+    case "export":
+      await handleExportCommand(interaction, context);
+      return;
+    case "diff":
+      await handleDiffCommand(interaction, context);
+      return;
+    case "gitstatus":
+      await handleGitStatusCommand(interaction, context);
+      return;
+    case "checkpoints":
+      await handleCheckpointsCommand(interaction, context);
+      return;
+    case "undo":
+      await handleUndoCommand(interaction, context);
+      return;
     case "compact":
       await handleCompactCommand(interaction, context);
       return;
     case "init":
       await handleInitCommand(interaction, context);
       return;
+    case "cancel":
+      await handleCancelCommand(interaction, context);
+      return;
+    case "queue":
+      await handleQueueCommand(interaction, context);
+      return;
+    case "model":
+      await handleModelCommand(interaction, context);
+      return;
+    case "sandbox":
+      await handleSandboxCommand(interaction, context);
+      return;
+    case "autocompact":
+      await handleAutoCompactCommand(interaction, context);
+      return;
+    case "usage":
+      await handleUsageCommand(interaction, context);
+      return;
+    case "audit":
+      await handleAuditCommand(interaction, context);
+      return;
     default:
       await interaction.reply({
         content: `Unknown command: ${interaction.commandName}`,
@@ -165,34 +642,321 @@ async function handleCommand(
   }
 }
 
-async function handleNewCommand(
+/**
+ * Checks access to the session a command targets before its handler runs, so no handler can
+ * forget to. Commands without a session, or naming one that does not exist, pass through;
+ * /new, /import and /list check project access themselves.
+ */
+async function authorizeCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<{ session?: SessionRecord; denial?: string }> {
+  const scope = interaction.options.getString("scope");
+  const targetsSession =
+    SESSION_COMMANDS.has(interaction.commandName) ||
+    (interaction.commandName === "usage" && (scope === "session" || scope === "project"));
+
+  if (ADMIN_COMMANDS.has(interaction.commandName)) {
+    return {
+      denial: checkAdminAccess(
+        context.config,
+        await resolveInteractionSubject(interaction, context),
+        `use /${interaction.commandName}`,
+      ),
+    };
+  }
+
+  if (!targetsSession) {
+    return {};
+  }
+
+  const { session } = await resolveCommandSession(interaction, context);
+
+  if (!session) {
+    return {};
+  }
+
+  const subject = await resolveInteractionSubject(interaction, context);
+  const ownerOnlyAction = resolveOwnerOnlyAction(interaction);
+
+  return {
+    session,
+    denial:
+      checkSessionAccess(context.config, subject, session) ??
+      (ownerOnlyAction
+        ? checkOwnerAction(context.config, subject, session, ownerOnlyAction)
+        : undefined),
+  };
+}
+
+function collectCommandOptions(
   interaction: ChatInputCommandInteraction,
+): Record<string, AuditCommandOptionValue> {
+  const options: Record<string, AuditCommandOptionValue> = {};
+
+  for (const option of interaction.options.data) {
+    if (typeof option.value !== "undefined") {
+      options[option.name] = option.value;
+    }
+  }
+
+  return options;
+}
+
+function resolveOwnerOnlyAction(
+  interaction: ChatInputCommandInteraction,
+): OwnerOnlyAction | undefined {
+  switch (interaction.commandName) {
+    case "delete":
+      return "delete";
+    case "undo":
+      return "undo";
+    case "sandbox":
+      // Showing the current setting is open to everyone with access to the session.
+      return interaction.options.getString("mode") ? "sandbox" : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function resolveInteractionSubject(
+  interaction: ChatInputCommandInteraction | AutocompleteInteraction,
+  context: CommandContext,
+): Promise<PermissionSubject> {
+  return resolvePermissionSubject(
+    context.client,
+    context.config,
+    interaction.user.id,
+    interaction.member,
+  );
+}
+
+async function handleAutocomplete(
+  interaction: AutocompleteInteraction,
   context: CommandContext,
 ): Promise<void> {
-  const projectPath = interaction.options.getString("project", true).trim();
-  const title = interaction.options.getString("title")?.trim();
+  const focused = interaction.options.getFocused(true);
 
-  const session = await context.store.createSession({
-    projectPath,
-    title,
-    createdByUserId: interaction.user.id,
-  });
+  if (interaction.commandName === "model" && focused.name === "model") {
+    const query = focused.value.trim().toLowerCase();
+    const models = [...context.config.codexModels, DEFAULT_SETTING_VALUE].filter(
+      (model) => model.toLowerCase().includes(query),
+    );
 
-  let channelMessage = "";
+    await interaction.respond(
+      models.slice(0, MAX_AUTOCOMPLETE_CHOICES).map((model) => ({
+        name: model,
+        value: model,
+      })),
+    );
+    return;
+  }
 
-  if (hasChannelMode(context.config)) {
-    const channel = await ensureSessionChannel(
-      context.client,
-      context.config,
-      context.store,
-      session,
+  if (focused.name === "session_id") {
+    const query = focused.value.trim().toLowerCase();
+    const subject = await resolveInteractionSubject(interaction, context);
+    const sessions = (await context.store.listSessions())
+      .filter(
+        (session) =>
+          !checkSessionAccess(context.config, subject, session) &&
+          (session.id.toLowerCase().includes(query) ||
+            session.title.toLowerCase().includes(query) ||
+            session.projectPath.toLowerCase().includes(query)),
+      )
+      .sort((a, b) => getLastActivity(b).localeCompare(getLastActivity(a)));
+
+    await interaction.respond(
+      sessions.slice(0, MAX_AUTOCOMPLETE_CHOICES).map((session) => {
+        const label = `${session.id} · ${session.title} · ${basename(session.projectPath)}`;
+
+        return {
+          name: label.slice(0, MAX_AUTOCOMPLETE_CHOICE_LENGTH),
+          value: session.id,
+        };
+      }),
     );
-    channelMessage = `\nChannel: <#${channel.id}>`;
+    return;
   }
 
-  await context.store.setFocusedSessionId(interaction.user.id, session.id);
+  if (focused.name === "project") {
+    const knownProjectPaths = [
+      ...new Set((await context.store.listSessions()).map((session) => session.projectPath)),
+    ];
+    // /list filters by exact project path, so only /new offers directories to start in.
+    const projectPaths =
+      interaction.commandName === "new"
+        ? await suggestProjectPaths(
+            focused.value,
+            context.config.workspaceRoots,
+            knownProjectPaths,
+            MAX_AUTOCOMPLETE_CHOICES * 2,
+          )
+        : knownProjectPaths.filter((path) =>
+            path.toLowerCase().includes(focused.value.trim().toLowerCase()),
+          );
+
+    // Discord rejects choices longer than 100 characters, and a clipped path is useless.
+    await interaction.respond(
+      projectPaths
+        .filter((path) => path.length <= MAX_AUTOCOMPLETE_CHOICE_LENGTH)
+        .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+        .map((path) => ({
+          name: path,
+          value: path,
+        })),
+    );
+    return;
+  }
 
-  const focusMessage = `\nFocused session: \`${session.id}\``;
+  if (interaction.commandName === "new" && focused.name === "backend") {
+    const query = focused.value.trim().toLowerCase();
+    const backends = context.agents
+      .listBackendNames()
+      .filter((name) => name.toLowerCase().includes(query));
+
+    await interaction.respond(
+      backends.slice(0, MAX_AUTOCOMPLETE_CHOICES).map((name) => ({
+        name,
+        value: name,
+      })),
+    );
+    return;
+  }
+
+  if (interaction.commandName === "new" && focused.name === "template") {
+    const query = focused.value.trim().toLowerCase();
+    const templates = Object.keys(context.config.projectTemplates).filter((name) =>
+      name.toLowerCase().includes(query),
+    );
+
+    await interaction.respond(
+      templates.slice(0, MAX_AUTOCOMPLETE_CHOICES).map((name) => ({
+        name,
+        value: name,
+      })),
+    );
+    return;
+  }
+
+  if (interaction.commandName === "import" && focused.name === "thread_id") {
+    const query = focused.value.trim().toLowerCase();
+    const threads = (
+      await listRecentCodexThreads(MAX_AUTOCOMPLETE_CHOICES, context.sessionLogs)
+    ).filter(
+      (thread) =>
+        thread.threadId.startsWith(query) ||
+        (thread.cwd ?? "").toLowerCase().includes(query) ||
+        (thread.firstPrompt ?? "").toLowerCase().includes(query),
+    );
+
+    await interaction.respond(
+      threads.map((thread) => {
+        const project = basename(thread.cwd ?? "") || "unknown";
+        const label = `${thread.threadId.slice(0, 8)} · ${project} · ${formatCodexThreadPrompt(thread, 60)}`;
+
+        return {
+          name: label.slice(0, MAX_AUTOCOMPLETE_CHOICE_LENGTH),
+          value: thread.threadId,
+        };
+      }),
+    );
+    return;
+  }
+
+  await interaction.respond([]);
+}
+
+async function handleNewCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const rawProjectPath = interaction.options.getString("project", true);
+  const title = interaction.options.getString("title")?.trim();
+  const backend = interaction.options.getString("backend")?.trim();
+  const create = interaction.options.getBoolean("create") ?? false;
+  const templateName = interaction.options.getString("template")?.trim();
+  const templateDirectory = templateName
+    ? context.config.projectTemplates[templateName]
+    : undefined;
+
+  if (backend && !context.agents.hasBackend(backend)) {
+    await interaction.reply({
+      content:
+        `Unknown agent backend \`${backend}\`. ` +
+        `Available: ${context.agents.listBackendNames().map((name) => `\`${name}\``).join(", ")}.`,
+    });
+    return;
+  }
+
+  if (templateName && !templateDirectory) {
+    const templateNames = Object.keys(context.config.projectTemplates);
+
+    await interaction.reply({
+      content:
+        templateNames.length > 0
+          ? `Unknown template \`${templateName}\`. Available: ${templateNames.map((name) => `\`${name}\``).join(", ")}.`
+          : 'No project templates are configured. Add them under "projectTemplates" in the config file.',
+    });
+    return;
+  }
+
+  const project = await resolveProjectPath(rawProjectPath, context.config.workspaceRoots);
+  const projectDenial = checkProjectAccess(
+    context.config,
+    await resolveInteractionSubject(interaction, context),
+    project.path,
+  );
+
+  if (projectDenial) {
+    await interaction.reply({
+      content: projectDenial,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  let projectNote = "";
+
+  if (templateDirectory) {
+    await createProjectDirectory(project.path, templateDirectory);
+    projectNote = ` (scaffolded from template \`${templateName}\`)`;
+  } else if (!project.exists) {
+    if (!create) {
+      await interaction.reply({
+        content:
+          `Project path \`${project.path}\` does not exist. ` +
+          "Run `/new` again with `create:True` to create it, or with `template` to scaffold it.",
+      });
+      return;
+    }
+
+    await createProjectDirectory(project.path);
+    projectNote = " (created)";
+  }
+
+  const session = await context.store.createSession({
+    projectPath: project.path,
+    title,
+    createdByUserId: interaction.user.id,
+    agentBackend: backend === DEFAULT_AGENT_BACKEND ? undefined : backend,
+  });
+  auditSessionAction(context, interaction, session, "create");
+
+  let channelMessage = "";
+
+  if (hasChannelMode(context.config)) {
+    const channel = await ensureSessionChannel(
+      context.client,
+      context.config,
+      context.store,
+      session,
+    );
+    channelMessage = `\nChannel: <#${channel.id}>`;
+  }
+
+  await context.store.setFocusedSessionId(interaction.user.id, session.id);
+
+  const focusMessage = `\nFocused session: \`${session.id}\``;
   const chatHint = hasChannelMode(context.config)
     ? "\nSend a DM to the bot or a message in the session channel to chat with Codex."
     : "\nSend a DM to the bot to chat with this session.";
@@ -200,109 +964,779 @@ async function handleNewCommand(
   await interaction.reply({
     content:
       `Created session \`${session.id}\`\n` +
-      `Project: \`${session.projectPath}\`\n` +
+      `Project: \`${session.projectPath}\`${projectNote}\n` +
       `Title: ${session.title}` +
+      (session.agentBackend ? `\nBackend: \`${session.agentBackend}\`` : "") +
       channelMessage +
       focusMessage +
       chatHint,
   });
 }
 
-async function handleDeleteCommand(
+async function handleImportCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const threadId = interaction.options.getString("thread_id")?.trim();
+  const title = interaction.options.getString("title")?.trim();
+
+  await interaction.deferReply();
+
+  if (!threadId) {
+    const threads = await listRecentCodexThreads(IMPORT_LIST_LIMIT, context.sessionLogs);
+
+    if (threads.length === 0) {
+      await interaction.editReply({
+        content: "No Codex CLI sessions found in `~/.codex/sessions`.",
+      });
+      return;
+    }
+
+    await deliverInteractionReply(
+      interaction,
+      [
+        "Recent Codex CLI sessions:",
+        ...threads.map(formatCodexThreadSummary),
+        "",
+        "Import one with `/import thread_id:<id>`.",
+      ].join("\n"),
+      { attachmentThreshold: context.config.replyAttachmentThreshold },
+    );
+    return;
+  }
+
+  const thread = await findCodexThread(threadId, context.sessionLogs);
+
+  if (!thread) {
+    await interaction.editReply({
+      content: `No Codex CLI session with thread ID \`${threadId}\` was found in \`~/.codex/sessions\`.`,
+    });
+    return;
+  }
+
+  const projectDenial = thread.cwd
+    ? checkProjectAccess(
+        context.config,
+        await resolveInteractionSubject(interaction, context),
+        thread.cwd,
+      )
+    : undefined;
+
+  if (projectDenial) {
+    await interaction.editReply({
+      content: projectDenial,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  const session = await importCodexThread(context.store, thread, {
+    createdByUserId: interaction.user.id,
+    title,
+    workspaceRoots: context.config.workspaceRoots,
+  });
+  auditSessionAction(context, interaction, session, "import");
+
+  let channelMessage = "";
+
+  if (hasChannelMode(context.config)) {
+    const channel = await ensureSessionChannel(
+      context.client,
+      context.config,
+      context.store,
+      session,
+    );
+    channelMessage = `\nChannel: <#${channel.id}>`;
+  }
+
+  await context.store.setFocusedSessionId(interaction.user.id, session.id);
+
+  await interaction.editReply({
+    content:
+      `Imported Codex thread \`${thread.threadId}\` as session \`${session.id}\`\n` +
+      `Project: \`${session.projectPath}\`\n` +
+      `Title: ${session.title}` +
+      channelMessage +
+      `\nFocused session: \`${session.id}\``,
+  });
+}
+
+async function handleDeleteCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const sessionId = interaction.options.getString("session_id", true).trim();
+  const session = await context.store.getSession(sessionId);
+
+  if (!session) {
+    await interaction.reply({
+      content: `Session \`${sessionId}\` was not found.`,
+    });
+    return;
+  }
+
+  const busyMessage = formatBusySessionMessage(context, session);
+
+  if (busyMessage) {
+    await interaction.reply({ content: busyMessage });
+    return;
+  }
+
+  // Checkpoint refs live in the project's repository, so release them while the list exists.
+  await context.checkpoints.clear(session.id);
+
+  const deleted = await context.store.deleteSession(session.id);
+
+  if (!deleted) {
+    await interaction.reply({
+      content: `Session \`${sessionId}\` was not found.`,
+    });
+    return;
+  }
+
+  auditSessionAction(context, interaction, deleted, "delete");
+  await deleteSessionChannel(context.client, context.config, deleted);
+
+  await interaction.reply({
+    content: `Deleted session \`${deleted.id}\` (${deleted.projectPath}).`,
+  });
+}
+
+async function handleFocusCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const sessionId = interaction.options.getString("session_id", true).trim();
+  const session = await context.store.getSession(sessionId);
+
+  if (!session) {
+    await interaction.reply({
+      content: `Session \`${sessionId}\` was not found.`,
+    });
+    return;
+  }
+
+  await context.store.setFocusedSessionId(interaction.user.id, session.id);
+  auditSessionAction(context, interaction, session, "focus");
+
+  await interaction.reply({
+    content: `Focused session set to \`${session.id}\` (${session.projectPath}).`,
+  });
+}
+
+async function handleListCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const projectFilter = interaction.options.getString("project")?.trim();
+  const subject = await resolveInteractionSubject(interaction, context);
+  const sessions = (await context.store.listSessions()).filter(
+    (session) => !checkSessionAccess(context.config, subject, session),
+  );
+  const filtered = projectFilter
+    ? sessions.filter((session) => session.projectPath === projectFilter)
+    : sessions;
+
+  if (filtered.length === 0) {
+    const filterMessage = projectFilter
+      ? ` for project \`${projectFilter}\``
+      : "";
+
+    await interaction.reply({
+      content: `No sessions found${filterMessage}.`,
+    });
+    return;
+  }
+
+  const focusedSessionId = await context.store.getFocusedSessionId(interaction.user.id);
+
+  const groupedByProject = groupByProject(filtered);
+  const messageLines: string[] = [];
+
+  if (focusedSessionId) {
+    messageLines.push(`Focused session: \`${focusedSessionId}\``);
+    messageLines.push("");
+  }
+
+  for (const [projectPath, projectSessions] of groupedByProject) {
+    messageLines.push(`Project: \`${projectPath}\``);
+
+    for (const session of projectSessions) {
+      const focusTag =
+        focusedSessionId && focusedSessionId === session.id ? " [focused]" : "";
+      const channelTag = session.channelId ? ` <#${session.channelId}>` : "";
+
+      messageLines.push(
+        `- \`${session.id}\`${focusTag}: ${session.title}${channelTag}`,
+      );
+    }
+
+    messageLines.push("");
+  }
+
+  await deliverInteractionReply(interaction, messageLines.join("\n").trim(), {
+    attachmentThreshold: context.config.replyAttachmentThreshold,
+  });
+}
+
+async function handleStatusCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/status session_id:<id>`, run this in a session channel, or set `/focus` for DM status.",
+    });
+    return;
+  }
+
+  if (!session.codexThreadId) {
+    await interaction.reply({
+      content:
+        `Session \`${session.id}\` has no Codex thread yet. Send a normal message to this session first, then run \`/status\` again.`,
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+
+  const result = await context.agents.sendMessage(session, "/status", {
+    includeRateLimits: true,
+    interactiveSession: true,
+    requester: { userId: interaction.user.id },
+  });
+  const usageSummary = formatRateLimitSummary(result.rateLimits);
+  const contextWindowFooter = formatContextWindowFooter(result.contextWindow);
+  const sections = [`Session \`${session.id}\` status:\n${result.reply}`];
+
+  if (usageSummary) {
+    sections.push(`Usage limits:\n${usageSummary}`);
+  }
+
+  if (contextWindowFooter) {
+    sections.push(contextWindowFooter);
+  }
+
+  await deliverInteractionReply(
+    interaction,
+    stripBackticksAroundDiscordTimestamps(sections.join("\n\n")),
+    { attachmentThreshold: context.config.replyAttachmentThreshold },
+  );
+}
+
+async function handleHistoryCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/history session_id:<id>`, run this in a session channel, or set `/focus` for DM history.",
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+
+  const turns = await context.agents.readHistory(session);
+  const turnsPerPage =
+    interaction.options.getInteger("turns") ?? DEFAULT_HISTORY_TURNS_PER_PAGE;
+
+  await replyWithHistoryPager(interaction, session, turns, turnsPerPage);
+}
+
+async function handleExportCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/export session_id:<id>`, run this in a session channel, or set `/focus` for DM exports.",
+    });
+    return;
+  }
+
+  const format = parseTranscriptFormat(interaction.options.getString("format") ?? undefined);
+
+  await interaction.deferReply();
+
+  const entries = await context.agents.readTranscript(session);
+  const transcript = renderTranscript(session, entries, format);
+
+  await interaction.editReply({
+    content: `Transcript of session \`${session.id}\` (${countTranscriptTurns(entries)} turns).`,
+    files: [
+      new AttachmentBuilder(Buffer.from(transcript.content, "utf8"), {
+        name: transcript.fileName,
+      }),
+    ],
+  });
+}
+
+async function handleDiffCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/diff session_id:<id>`, run this in a session channel, or set `/focus` for DM diffs.",
+    });
+    return;
+  }
+
+  const path = interaction.options.getString("path")?.trim() || undefined;
+
+  await interaction.deferReply();
+
+  const repository = await GitRepository.open(session.projectPath);
+  const diff = await repository.diff(path);
+  const scope = path ? `\`${path}\` in \`${repository.cwd}\`` : `\`${repository.cwd}\``;
+
+  if (!diff.trim()) {
+    await interaction.editReply({
+      content: `No uncommitted changes in ${scope}.`,
+    });
+    return;
+  }
+
+  // A diff that contains a code fence itself would break out of the inline block.
+  if (diff.length <= INLINE_OUTPUT_LIMIT && !diff.includes("```")) {
+    await interaction.editReply({
+      content: `Changes in ${scope}:\n\`\`\`diff\n${diff.trimEnd()}\n\`\`\``,
+    });
+    return;
+  }
+
+  const summary = (await repository.diffStat(path)).trim();
+
+  await interaction.editReply({
+    content: `Changes in ${scope}: ${summary || "see attachment"}.`,
+    files: [
+      new AttachmentBuilder(Buffer.from(diff, "utf8"), {
+        name: `${session.id}.patch`,
+      }),
+    ],
+  });
+}
+
+async function handleGitStatusCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/gitstatus session_id:<id>`, run this in a session channel, or set `/focus` for DM status.",
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+
+  const repository = await GitRepository.open(session.projectPath);
+  const status = (await repository.status()).trimEnd();
+
+  await deliverInteractionReply(
+    interaction,
+    `Git status of \`${repository.cwd}\`:\n\`\`\`\n${status}\n\`\`\``,
+    { attachmentThreshold: context.config.replyAttachmentThreshold },
+  );
+}
+
+async function handleCheckpointsCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/checkpoints session_id:<id>`, run this in a session channel, or set `/focus` for DM checkpoints.",
+    });
+    return;
+  }
+
+  const checkpoints = await context.checkpoints.list(session.id);
+
+  if (checkpoints.length === 0) {
+    await interaction.reply({
+      content: `Session \`${session.id}\` has no checkpoints. They are taken before each turn when the project is a git repository.`,
+    });
+    return;
+  }
+
+  const lines = checkpoints
+    .map((checkpoint, index) => {
+      const steps = checkpoints.length - index;
+      return `${steps}. ${formatCheckpoint(checkpoint)}`;
+    })
+    .reverse();
+
+  await deliverInteractionReply(
+    interaction,
+    [
+      `Checkpoints for session \`${session.id}\` (newest first; the number is the \`/undo steps\` that restores it):`,
+      ...lines,
+    ].join("\n"),
+    { attachmentThreshold: context.config.replyAttachmentThreshold },
+  );
+}
+
+async function handleUndoCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/undo session_id:<id>`, run this in a session channel, or set `/focus` for DM undo.",
+    });
+    return;
+  }
+
+  const steps = interaction.options.getInteger("steps") ?? 1;
+  const checkpoints = await context.checkpoints.list(session.id);
+  const checkpoint = checkpoints[checkpoints.length - steps];
+
+  if (!checkpoint) {
+    await interaction.reply({
+      content: `Session \`${session.id}\` has ${checkpoints.length} checkpoint(s), so it cannot go back ${steps} turn(s).`,
+    });
+    return;
+  }
+
+  const busyMessage = await formatBusyProjectMessage(context, session);
+
+  if (busyMessage) {
+    await interaction.reply({ content: busyMessage });
+    return;
+  }
+
+  await replyWithConfirmation(interaction, {
+    prompt:
+      `Restore \`${checkpoint.cwd}\` to ${formatCheckpoint(checkpoint)}?\n` +
+      "Every file change under that directory since then will be lost, including edits made outside Discord.",
+    confirmLabel: "Restore",
+    pendingMessage: `Restoring \`${checkpoint.cwd}\`…`,
+    onConfirm: async () => {
+      const stillBusy = await formatBusyProjectMessage(context, session);
+
+      if (stillBusy) {
+        return stillBusy;
+      }
+
+      // Nothing is running on the project now, and the restore holds the session's lock
+      // so no prompt can start until it is done.
+      const restored = await context.agents.runRestore(
+        session,
+        { userId: interaction.user.id },
+        () => context.checkpoints.restore(session.id, steps),
+      );
+
+      return (
+        `Restored \`${restored.checkpoint.cwd}\` to ${formatCheckpoint(restored.checkpoint)}. ` +
+        `Dropped ${restored.discarded} checkpoint(s).\n` +
+        `The files as they were before this restore are saved as commit ` +
+        `\`${restored.backupCommit}\` (ref \`${restored.backupRef}\`). To bring them back, run ` +
+        `\`git restore --source=${restored.backupCommit} --worktree -- .\` in that directory.`
+      );
+    },
+  });
+}
+
+async function handleCompactCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/compact session_id:<id>`, run this in a session channel, or set `/focus` for DM compact.",
+    });
+    return;
+  }
+
+  if (!session.codexThreadId) {
+    await interaction.reply({
+      content:
+        `Session \`${session.id}\` has no Codex thread yet. Send a normal message to this session first, then run \`/compact\` again.`,
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+  const result = await context.agents.sendMessage(session, "/compact", {
+    interactiveSession: true,
+    requester: { userId: interaction.user.id },
+  });
+
+  await deliverInteractionReply(
+    interaction,
+    `Session \`${session.id}\` compact:\n${result.reply}`,
+    { attachmentThreshold: context.config.replyAttachmentThreshold },
+  );
+}
+
+async function handleInitCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
+
+    await interaction.reply({
+      content:
+        "No session selected. Use `/init session_id:<id>`, run this in a session channel, or set `/focus` for DM init.",
+    });
+    return;
+  }
+
+  await interaction.deferReply();
+  const result = await context.agents.sendMessage(session, "/init", {
+    interactiveSession: true,
+    requester: { userId: interaction.user.id },
+  });
+
+  await deliverInteractionReply(
+    interaction,
+    `Session \`${session.id}\` init:\n${result.reply}`,
+    { attachmentThreshold: context.config.replyAttachmentThreshold },
+  );
+}
+
+async function handleCancelCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
-  const sessionId = interaction.options.getString("session_id", true).trim();
-  const deleted = await context.store.deleteSession(sessionId);
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
+
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
 
-  if (!deleted) {
     await interaction.reply({
-      content: `Session \`${sessionId}\` was not found.`,
+      content:
+        "No session selected. Use `/cancel session_id:<id>`, run this in a session channel, or set `/focus` for DM cancel.",
     });
     return;
   }
 
-  await deleteSessionChannel(context.client, context.config, deleted);
-
-  await interaction.reply({
-    content: `Deleted session \`${deleted.id}\` (${deleted.projectPath}).`,
+  const dropQueued = interaction.options.getBoolean("drop_queue") ?? false;
+  const result = context.agents.cancelTurn(session.id, {
+    dropQueued,
+    reason: `Turn cancelled by <@${interaction.user.id}>.`,
   });
-}
 
-async function handleFocusCommand(
-  interaction: ChatInputCommandInteraction,
-  context: CommandContext,
-): Promise<void> {
-  const sessionId = interaction.options.getString("session_id", true).trim();
-  const session = await context.store.getSession(sessionId);
-
-  if (!session) {
+  if (!result.cancelledActive && result.droppedQueued === 0) {
     await interaction.reply({
-      content: `Session \`${sessionId}\` was not found.`,
+      content: `Session \`${session.id}\` has no running turn to cancel.`,
     });
     return;
   }
 
-  await context.store.setFocusedSessionId(interaction.user.id, session.id);
+  const lines: string[] = [];
+
+  if (result.cancelledActive) {
+    lines.push(`Cancelling the running turn in session \`${session.id}\`.`);
+  }
+
+  if (result.droppedQueued > 0) {
+    lines.push(`Dropped ${result.droppedQueued} queued prompt(s).`);
+  }
 
   await interaction.reply({
-    content: `Focused session set to \`${session.id}\` (${session.projectPath}).`,
+    content: lines.join("\n"),
   });
 }
 
-async function handleListCommand(
+async function handleQueueCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
-  const projectFilter = interaction.options.getString("project")?.trim();
-  const sessions = await context.store.listSessions();
-  const filtered = projectFilter
-    ? sessions.filter((session) => session.projectPath === projectFilter)
-    : sessions;
+  const { requestedSessionId, session } = await resolveCommandSession(
+    interaction,
+    context,
+  );
 
-  if (filtered.length === 0) {
-    const filterMessage = projectFilter
-      ? ` for project \`${projectFilter}\``
-      : "";
+  if (!session) {
+    if (requestedSessionId) {
+      await interaction.reply({
+        content: `Session \`${requestedSessionId}\` was not found.`,
+      });
+      return;
+    }
 
     await interaction.reply({
-      content: `No sessions found${filterMessage}.`,
+      content:
+        "No session selected. Use `/queue session_id:<id>`, run this in a session channel, or set `/focus` for DM queue.",
     });
     return;
   }
 
-  const focusedSessionId = await context.store.getFocusedSessionId(interaction.user.id);
+  const removePosition = interaction.options.getInteger("remove");
 
-  const groupedByProject = groupByProject(filtered);
-  const messageLines: string[] = [];
+  if (removePosition !== null) {
+    const removed = context.agents.removeQueuedTurn(
+      session.id,
+      removePosition,
+      `Removed from the queue by <@${interaction.user.id}>.`,
+    );
 
-  if (focusedSessionId) {
-    messageLines.push(`Focused session: \`${focusedSessionId}\``);
-    messageLines.push("");
+    await interaction.reply({
+      content: removed
+        ? `Removed queued prompt #${removePosition} from session \`${session.id}\` (${formatQueuedTurn(removed)}).`
+        : `Session \`${session.id}\` has no queued prompt at position ${removePosition}.`,
+      allowedMentions: { parse: [] },
+    });
+    return;
   }
 
-  for (const [projectPath, projectSessions] of groupedByProject) {
-    messageLines.push(`Project: \`${projectPath}\``);
+  const queue = context.agents.getSessionQueue(session.id);
 
-    for (const session of projectSessions) {
-      const focusTag =
-        focusedSessionId && focusedSessionId === session.id ? " [focused]" : "";
-      const channelTag = session.channelId ? ` <#${session.channelId}>` : "";
+  if (!queue.running && queue.queued.length === 0) {
+    await interaction.reply({
+      content: `Session \`${session.id}\` is idle. No prompts are queued.`,
+    });
+    return;
+  }
 
-      messageLines.push(
-        `- \`${session.id}\`${focusTag}: ${session.title}${channelTag}`,
-      );
-    }
+  const lines = [`Session \`${session.id}\` queue:`];
 
-    messageLines.push("");
+  if (queue.running) {
+    const runningLabel = queue.running.waitingForSlot ? "Waiting for a free slot" : "Running";
+    lines.push(`${runningLabel}: ${formatQueuedTurn(queue.running)}`);
   }
 
-  await interaction.reply({
-    content: clipForDiscord(messageLines.join("\n").trim()),
+  if (queue.queued.length === 0) {
+    lines.push("No prompts waiting.");
+  }
+
+  for (const item of queue.queued) {
+    lines.push(`${item.position}. ${formatQueuedTurn(item)}`);
+  }
+
+  await deliverInteractionReply(interaction, lines.join("\n"), {
+    attachmentThreshold: context.config.replyAttachmentThreshold,
+    allowedMentions: { parse: [] },
   });
 }
 
-async function handleStatusCommand(
+async function handleModelCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
@@ -321,43 +1755,38 @@ async function handleStatusCommand(
 
     await interaction.reply({
       content:
-        "No session selected. Use `/status session_id:<id>`, run this in a session channel, or set `/focus` for DM status.",
+        "No session selected. Use `/model session_id:<id>`, run this in a session channel, or set `/focus` for DM model settings.",
     });
     return;
   }
 
-  if (!session.codexThreadId) {
+  const requestedModel = interaction.options.getString("model")?.trim();
+  const requestedEffort = interaction.options.getString("reasoning_effort");
+
+  if (!requestedModel && !requestedEffort) {
     await interaction.reply({
-      content:
-        `Session \`${session.id}\` has no Codex thread yet. Send a normal message to this session first, then run \`/status\` again.`,
+      content: `Session \`${session.id}\` uses ${formatModelSettings(session)}.`,
     });
     return;
   }
 
-  await interaction.deferReply();
-
-  const result = await context.codex.sendMessage(session, "/status", {
-    includeRateLimits: true,
-    interactiveSession: true,
-  });
-  const usageSummary = formatRateLimitSummary(result.rateLimits);
-  const contextWindowFooter = formatContextWindowFooter(result.contextWindow);
-  const sections = [`Session \`${session.id}\` status:\n${result.reply}`];
-
-  if (usageSummary) {
-    sections.push(`Usage limits:\n${usageSummary}`);
-  }
-
-  if (contextWindowFooter) {
-    sections.push(contextWindowFooter);
-  }
+  const model = resolveModelSetting(requestedModel, session.model);
+  const reasoningEffort = resolveChoiceSetting(
+    requestedEffort,
+    session.reasoningEffort,
+    REASONING_EFFORTS,
+    "reasoning effort",
+  );
+  const updated = await context.store.setSessionModel(session.id, model, reasoningEffort);
 
-  await interaction.editReply({
-    content: clipForDiscord(stripBackticksAroundDiscordTimestamps(sections.join("\n\n"))),
+  await interaction.reply({
+    content:
+      `Session \`${updated.id}\` now uses ${formatModelSettings(updated)}.\n` +
+      "The change applies from the next turn.",
   });
 }
 
-async function handleCompactCommand(
+async function handleSandboxCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
@@ -376,30 +1805,36 @@ async function handleCompactCommand(
 
     await interaction.reply({
       content:
-        "No session selected. Use `/compact session_id:<id>`, run this in a session channel, or set `/focus` for DM compact.",
+        "No session selected. Use `/sandbox session_id:<id>`, run this in a session channel, or set `/focus` for DM sandbox settings.",
     });
     return;
   }
 
-  if (!session.codexThreadId) {
+  const requestedMode = interaction.options.getString("mode");
+
+  if (!requestedMode) {
     await interaction.reply({
-      content:
-        `Session \`${session.id}\` has no Codex thread yet. Send a normal message to this session first, then run \`/compact\` again.`,
+      content: `Session \`${session.id}\` runs with ${formatSandboxSettings(session)}.`,
     });
     return;
   }
 
-  await interaction.deferReply();
-  const result = await context.codex.sendMessage(session, "/compact", {
-    interactiveSession: true,
-  });
+  const sandboxMode = resolveChoiceSetting(
+    requestedMode,
+    session.sandboxMode,
+    SANDBOX_MODES,
+    "sandbox mode",
+  );
+  const updated = await context.store.setSessionSandbox(session.id, sandboxMode);
 
-  await interaction.editReply({
-    content: clipForDiscord(`Session \`${session.id}\` compact:\n${result.reply}`),
+  await interaction.reply({
+    content:
+      `Session \`${updated.id}\` now runs with ${formatSandboxSettings(updated)}.\n` +
+      "The change applies from the next turn.",
   });
 }
 
-async function handleInitCommand(
+async function handleAutoCompactCommand(
   interaction: ChatInputCommandInteraction,
   context: CommandContext,
 ): Promise<void> {
@@ -418,18 +1853,200 @@ async function handleInitCommand(
 
     await interaction.reply({
       content:
-        "No session selected. Use `/init session_id:<id>`, run this in a session channel, or set `/focus` for DM init.",
+        "No session selected. Use `/autocompact session_id:<id>`, run this in a session channel, or set `/focus` for DM auto-compaction.",
     });
     return;
   }
 
-  await interaction.deferReply();
-  const result = await context.codex.sendMessage(session, "/init", {
-    interactiveSession: true,
+  const threshold = interaction.options.getInteger("threshold");
+
+  if (threshold === null) {
+    await interaction.reply({
+      content: `Session \`${session.id}\`: ${formatAutoCompactSetting(session)}.`,
+    });
+    return;
+  }
+
+  const updated = await context.store.setSessionAutoCompactThreshold(
+    session.id,
+    threshold > 0 ? threshold : undefined,
+  );
+
+  await interaction.reply({
+    content: `Session \`${updated.id}\`: ${formatAutoCompactSetting(updated)}.`,
+  });
+}
+
+async function handleUsageCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const scope = interaction.options.getString("scope");
+  const period = USAGE_PERIODS[interaction.options.getString("period") ?? "week"];
+  const sinceMs =
+    typeof period?.durationMs === "number" ? Date.now() - period.durationMs : undefined;
+  const periodLabel = period?.label ?? "all time";
+  const sessionsById = new Map(
+    (await context.store.listSessions()).map((session) => [session.id, session]),
+  );
+  const byUser: UsageBreakdown = {
+    title: "Top users",
+    keyOf: (entry) => entry.userId,
+    formatKey: (userId) => `<@${userId}>`,
+  };
+  const bySession: UsageBreakdown = {
+    title: "Top sessions",
+    keyOf: (entry) => entry.sessionId,
+    formatKey: (sessionId) =>
+      `\`${sessionId}\` ${sessionsById.get(sessionId)?.title ?? "(deleted)"}`,
+  };
+  const byProject: UsageBreakdown = {
+    title: "Top projects",
+    keyOf: (entry) => entry.projectPath,
+    formatKey: (projectPath) => `\`${projectPath}\``,
+  };
+  let scopeLabel = "all sessions";
+  let matches: (entry: UsageEntry) => boolean = () => true;
+  let breakdowns = [byUser, byProject];
+
+  if (scope === "session" || scope === "project") {
+    const { requestedSessionId, session } = await resolveCommandSession(
+      interaction,
+      context,
+    );
+
+    if (!session) {
+      if (requestedSessionId) {
+        await interaction.reply({
+          content: `Session \`${requestedSessionId}\` was not found.`,
+        });
+        return;
+      }
+
+      await interaction.reply({
+        content: `No session selected. Use \`/usage scope:${scope} session_id:<id>\`, run this in a session channel, or set \`/focus\`.`,
+      });
+      return;
+    }
+
+    if (scope === "session") {
+      scopeLabel = `session \`${session.id}\``;
+      matches = (entry) => entry.sessionId === session.id;
+      breakdowns = [byUser];
+    } else {
+      scopeLabel = `project \`${session.projectPath}\``;
+      matches = (entry) => entry.projectPath === session.projectPath;
+      breakdowns = [byUser, bySession];
+    }
+  } else if (scope === "user") {
+    scopeLabel = `<@${interaction.user.id}>`;
+    matches = (entry) => entry.userId === interaction.user.id;
+    breakdowns = [bySession, byProject];
+  }
+
+  const entries = (await context.usageLedger.readEntries(sinceMs)).filter(matches);
+
+  if (entries.length === 0) {
+    await interaction.reply({
+      content: `No token usage recorded for ${scopeLabel} (${periodLabel}).`,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  const totals = sumUsage(entries);
+  const lines = [
+    `Token usage for ${scopeLabel} (${periodLabel}):`,
+    `${formatTokenCount(totals.totalTokens)} tokens over ${totals.turns} turn(s) ` +
+      `(input ${formatTokenCount(totals.inputTokens)}, cached ${formatTokenCount(totals.cachedInputTokens)}, ` +
+      `output ${formatTokenCount(totals.outputTokens)}, reasoning ${formatTokenCount(totals.reasoningOutputTokens)})`,
+  ];
+
+  for (const breakdown of breakdowns) {
+    const groups = groupUsage(entries, breakdown.keyOf).slice(0, USAGE_TOP_CONSUMERS);
+
+    if (groups.length === 0) {
+      continue;
+    }
+
+    lines.push("", `${breakdown.title}:`);
+
+    for (const [index, group] of groups.entries()) {
+      lines.push(
+        `${index + 1}. ${breakdown.formatKey(group.key)}: ` +
+          `${formatTokenCount(group.totals.totalTokens)} tokens (${group.totals.turns} turn(s))`,
+      );
+    }
+  }
+
+  await deliverInteractionReply(interaction, lines.join("\n"), {
+    attachmentThreshold: context.config.replyAttachmentThreshold,
+    allowedMentions: { parse: [] },
+  });
+}
+
+function auditSessionAction(
+  context: CommandContext,
+  interaction: ChatInputCommandInteraction,
+  session: SessionRecord,
+  action: AuditSessionEntry["action"],
+): void {
+  context.auditLog.record({
+    kind: "session",
+    action,
+    userId: interaction.user.id,
+    sessionId: session.id,
+    projectPath: session.projectPath,
   });
+}
+
+async function handleAuditCommand(
+  interaction: ChatInputCommandInteraction,
+  context: CommandContext,
+): Promise<void> {
+  const since = interaction.options.getString("since")?.trim();
+  const until = interaction.options.getString("until")?.trim();
+  const limit = interaction.options.getInteger("limit") ?? DEFAULT_AUDIT_ENTRIES;
+  const filter = {
+    userId: interaction.options.getUser("user")?.id,
+    sessionId: interaction.options.getString("session_id")?.trim() || undefined,
+    sinceMs: since ? parseAuditTime(since) : undefined,
+    untilMs: until ? parseAuditTime(until) : undefined,
+  };
+
+  // The log holds every user's prompts, so only the admin who asked sees the result.
+  await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+  const entries = await context.auditLog.readEntries(filter);
+
+  if (entries.length === 0) {
+    await interaction.editReply({
+      content: "No audit log entries match.",
+    });
+    return;
+  }
+
+  const shown = entries.slice(-limit);
+  const lines = shown.map(formatAuditEntry).join("\n");
+  const summary =
+    `Latest ${shown.length} of ${entries.length} matching audit log entries, ` +
+    "oldest first:";
+
+  // Prompts can contain code fences, which would break out of the inline block.
+  if (lines.length <= INLINE_OUTPUT_LIMIT && !lines.includes("```")) {
+    await interaction.editReply({
+      content: `${summary}\n\`\`\`text\n${lines}\n\`\`\``,
+    });
+    return;
+  }
 
   await interaction.editReply({
-    content: clipForDiscord(`Session \`${session.id}\` init:\n${result.reply}`),
+    content: summary,
+    files: [
+      new AttachmentBuilder(Buffer.from(`${lines}\n`, "utf8"), {
+        name: "audit.log",
+      }),
+    ],
   });
 }
 
@@ -493,15 +2110,132 @@ function groupByProject(
   return [...map.entries()].sort(([a], [b]) => a.localeCompare(b));
 }
 
-function clipForDiscord(content: string): string {
-  if (content.length <= 1900) {
-    return content;
+function resolveModelSetting(
+  requested: string | undefined,
+  current: string | undefined,
+): string | undefined {
+  if (!requested) {
+    return current;
+  }
+
+  return requested === DEFAULT_SETTING_VALUE ? undefined : requested;
+}
+
+function resolveChoiceSetting<TValue extends string>(
+  requested: string | null,
+  current: TValue | undefined,
+  allowed: readonly TValue[],
+  label: string,
+): TValue | undefined {
+  if (!requested) {
+    return current;
+  }
+
+  if (requested === DEFAULT_SETTING_VALUE) {
+    return undefined;
+  }
+
+  if (!allowed.includes(requested as TValue)) {
+    throw new Error(`Unknown ${label} "${requested}". Use one of: ${allowed.join(", ")}.`);
+  }
+
+  return requested as TValue;
+}
+
+function formatSandboxSettings(session: SessionRecord): string {
+  return session.sandboxMode
+    ? `sandbox \`${session.sandboxMode}\``
+    : "the Codex default sandbox";
+}
+
+function formatAutoCompactSetting(session: SessionRecord): string {
+  return typeof session.autoCompactThreshold === "number"
+    ? `compacts automatically when a turn leaves less than ${session.autoCompactThreshold}% of the context window`
+    : "automatic compaction is off";
+}
+
+function formatModelSettings(session: SessionRecord): string {
+  const model = session.model ? `model \`${session.model}\`` : "the Codex default model";
+  const effort = session.reasoningEffort ?? "Codex default";
+
+  return `${model} (reasoning effort: ${effort})`;
+}
+
+function formatTokenCount(value: number): string {
+  return value.toLocaleString("en-US");
+}
+
+function formatCodexThreadSummary(thread: CodexThreadSummary): string {
+  const updatedAt = Math.trunc(Date.parse(thread.updatedAt) / 1000);
+
+  return (
+    `- \`${thread.threadId}\` · \`${thread.cwd ?? "unknown directory"}\` · <t:${updatedAt}:R>\n` +
+    `  ${formatCodexThreadPrompt(thread, 120)}`
+  );
+}
+
+// Sessions that never ran a turn count as active when they were created.
+function getLastActivity(session: SessionRecord): string {
+  return session.lastActiveAt ?? session.createdAt;
+}
+
+function formatCheckpoint(checkpoint: CheckpointRecord): string {
+  const createdAt = Math.trunc(Date.parse(checkpoint.createdAt) / 1000);
+  return `the checkpoint from <t:${createdAt}:f>, before "${checkpoint.prompt}"`;
+}
+
+function formatBusySessionMessage(
+  context: CommandContext,
+  session: SessionRecord,
+): string | undefined {
+  const queue = context.agents.getSessionQueue(session.id);
+
+  if (!queue.running && queue.queued.length === 0) {
+    return undefined;
+  }
+
+  return `Session \`${session.id}\` has a turn running or queued. Wait for it to finish or use \`/cancel drop_queue:true\` first.`;
+}
+
+// Turns in any session on the same project write to the same files, so a restore waits
+// for all of them.
+async function formatBusyProjectMessage(
+  context: CommandContext,
+  session: SessionRecord,
+): Promise<string | undefined> {
+  const projectPath = resolve(session.projectPath);
+  const sessions = (await context.store.listSessions()).filter(
+    (candidate) =>
+      candidate.id !== session.id && resolve(candidate.projectPath) === projectPath,
+  );
+
+  for (const candidate of [session, ...sessions]) {
+    const queue = context.agents.getSessionQueue(candidate.id);
+
+    if (!queue.running && queue.queued.length === 0) {
+      continue;
+    }
+
+    return candidate.id === session.id
+      ? formatBusySessionMessage(context, session)
+      : `Session \`${candidate.id}\` works on the same project and has a turn running or queued. ` +
+          `Wait for it to finish or cancel it with \`/cancel session_id:${candidate.id} drop_queue:true\` first.`;
   }
 
-  return `${content.slice(0, 1850)}\n... output truncated ...`;
+  return undefined;
+}
+
+function formatQueuedTurn(item: QueuedTurnInfo): string {
+  const author = item.autoCompact
+    ? `automatic /compact after a turn by <@${item.requester.userId}>`
+    : `<@${item.requester.userId}>`;
+  const link = item.requester.messageUrl ? ` ${item.requester.messageUrl}` : "";
+  const enqueuedAt = Math.trunc(Date.parse(item.enqueuedAt) / 1000);
+
+  return `${author}${link}, queued <t:${enqueuedAt}:R>`;
 }
 
-function formatRateLimitSummary(rateLimits: CodexRateLimits | undefined): string | undefined {
+function formatRateLimitSummary(rateLimits: AgentRateLimits | undefined): string | undefined {
   if (!rateLimits) {
     return undefined;
   }
@@ -574,7 +2308,7 @@ function stripBackticksAroundDiscordTimestamps(content: string): string {
 }
 
 function formatContextWindowFooter(
-  contextWindow: CodexContextWindow | undefined,
+  contextWindow: AgentContextWindow | undefined,
 ): string | undefined {
   if (!contextWindow) {
     return undefined;
@@ -0,0 +1,101 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  MessageFlags,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+
+const CONFIRMATION_TIMEOUT_MS = 60_000;
+const CONFIRM_ID = "confirmation:confirm";
+const CANCEL_ID = "confirmation:cancel";
+
+export interface ConfirmationRequest {
+  prompt: string;
+  confirmLabel: string;
+  pendingMessage: string;
+  // Runs once the user confirms; its result replaces the prompt.
+  onConfirm: () => Promise<string>;
+}
+
+/**
+ * Replies with a prompt and Confirm/Cancel buttons that only the user who ran the command
+ * can press. Nothing happens unless they confirm within a minute.
+ */
+export async function replyWithConfirmation(
+  interaction: ChatInputCommandInteraction,
+  request: ConfirmationRequest,
+): Promise<void> {
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(CONFIRM_ID)
+      .setLabel(request.confirmLabel)
+      .setStyle(ButtonStyle.Danger),
+    new ButtonBuilder()
+      .setCustomId(CANCEL_ID)
+      .setLabel("Cancel")
+      .setStyle(ButtonStyle.Secondary),
+  );
+  const reply = await interaction.reply({
+    content: request.prompt,
+    components: [row],
+    withResponse: true,
+  });
+  const message = reply.resource?.message;
+
+  if (!message) {
+    return;
+  }
+
+  const collector = message.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    time: CONFIRMATION_TIMEOUT_MS,
+  });
+
+  collector.on("collect", async (buttonInteraction) => {
+    if (buttonInteraction.user.id !== interaction.user.id) {
+      await buttonInteraction
+        .reply({
+          content: `Only <@${interaction.user.id}> can answer this.`,
+          flags: MessageFlags.Ephemeral,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    collector.stop(buttonInteraction.customId);
+
+    if (buttonInteraction.customId !== CONFIRM_ID) {
+      await buttonInteraction
+        .update({ content: `${request.prompt}\n\nCancelled.`, components: [] })
+        .catch(() => undefined);
+      return;
+    }
+
+    await buttonInteraction
+      .update({ content: request.pendingMessage, components: [] })
+      .catch(() => undefined);
+
+    let outcome: string;
+
+    try {
+      outcome = await request.onConfirm();
+    } catch (error: unknown) {
+      outcome = `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    await interaction.editReply({ content: outcome }).catch(() => undefined);
+  });
+
+  collector.once("end", async (_collected, reason) => {
+    if (reason === "time") {
+      await interaction
+        .editReply({
+          content: `${request.prompt}\n\nNo answer within a minute, so nothing was changed.`,
+          components: [],
+        })
+        .catch(() => undefined);
+    }
+  });
+}
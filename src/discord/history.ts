@@ -0,0 +1,144 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  MessageFlags,
+  type ChatInputCommandInteraction,
+} from "discord.js";
+import type { AgentHistoryTurn } from "../agent/types.ts";
+import type { SessionRecord } from "../session/types.ts";
+
+const HISTORY_PAGER_TIMEOUT_MS = 10 * 60_000;
+const HISTORY_PAGE_LIMIT = 1_900;
+const PREVIOUS_PAGE_ID = "history:previous";
+const NEXT_PAGE_ID = "history:next";
+
+/**
+ * Replies to a deferred interaction with one page of session history, starting at the most
+ * recent turns, and lets the user who asked page back and forth until the buttons expire.
+ */
+export async function replyWithHistoryPager(
+  interaction: ChatInputCommandInteraction,
+  session: SessionRecord,
+  turns: readonly AgentHistoryTurn[],
+  turnsPerPage: number,
+): Promise<void> {
+  const pageCount = Math.max(1, Math.ceil(turns.length / turnsPerPage));
+  let pageIndex = pageCount - 1;
+  const render = () => ({
+    content: renderHistoryPage(session, turns, turnsPerPage, pageIndex, pageCount),
+    components: pageCount > 1 ? [buildPagerRow(pageIndex, pageCount)] : [],
+  });
+  const reply = await interaction.editReply(render());
+
+  if (pageCount === 1) {
+    return;
+  }
+
+  const collector = reply.createMessageComponentCollector({
+    componentType: ComponentType.Button,
+    time: HISTORY_PAGER_TIMEOUT_MS,
+  });
+
+  collector.on("collect", async (buttonInteraction) => {
+    if (buttonInteraction.user.id !== interaction.user.id) {
+      await buttonInteraction
+        .reply({
+          content: "Run `/history` yourself to page through this session.",
+          flags: MessageFlags.Ephemeral,
+        })
+        .catch(() => undefined);
+      return;
+    }
+
+    pageIndex =
+      buttonInteraction.customId === PREVIOUS_PAGE_ID
+        ? Math.max(0, pageIndex - 1)
+        : Math.min(pageCount - 1, pageIndex + 1);
+    await buttonInteraction.update(render()).catch(() => undefined);
+  });
+
+  collector.once("end", async () => {
+    await reply.edit({ components: [] }).catch(() => undefined);
+  });
+}
+
+// Pages are cut from the newest turn backwards, so only the oldest page can be short.
+function renderHistoryPage(
+  session: SessionRecord,
+  turns: readonly AgentHistoryTurn[],
+  turnsPerPage: number,
+  pageIndex: number,
+  pageCount: number,
+): string {
+  if (turns.length === 0) {
+    return `Session \`${session.id}\` has no recorded turns yet.`;
+  }
+
+  const end = turns.length - (pageCount - 1 - pageIndex) * turnsPerPage;
+  const start = Math.max(0, end - turnsPerPage);
+  const header =
+    `History of \`${session.id}\` (${session.title}): turns ${start + 1}–${end} of ` +
+    `${turns.length}, page ${pageIndex + 1}/${pageCount}`;
+  const turnBudget = Math.floor((HISTORY_PAGE_LIMIT - header.length) / (end - start));
+  const agentLabel = session.agentBackend ?? "Codex";
+  const sections = turns
+    .slice(start, end)
+    .map((turn, offset) =>
+      formatHistoryTurn(turn, start + offset + 1, agentLabel, turnBudget),
+    );
+
+  return [header, ...sections].join("\n\n");
+}
+
+function formatHistoryTurn(
+  turn: AgentHistoryTurn,
+  turnNumber: number,
+  agentLabel: string,
+  budget: number,
+): string {
+  const timestamp = turn.timestamp ? Date.parse(turn.timestamp) : Number.NaN;
+  const heading = Number.isNaN(timestamp)
+    ? `**Turn ${turnNumber}**`
+    : `**Turn ${turnNumber}** · <t:${Math.trunc(timestamp / 1000)}:f>`;
+  const available = Math.max(0, budget - heading.length - agentLabel.length - 20);
+  const promptBudget = Math.floor(available / 3);
+  const prompt = clipHistoryText(turn.prompt, promptBudget);
+  const reply = turn.reply
+    ? clipHistoryText(turn.reply, available - prompt.length)
+    : "_(no reply recorded)_";
+
+  return `${heading}\n**You:** ${prompt}\n**${agentLabel}:** ${reply}`;
+}
+
+// An unclosed code fence would swallow the rest of the page, so text clipped inside a
+// fence gets it closed.
+function clipHistoryText(text: string, limit: number): string {
+  if (text.length <= limit) {
+    return text;
+  }
+
+  const clipped = `${text.slice(0, Math.max(0, limit - 5))}…`;
+  const fenceCount = clipped.split("```").length - 1;
+
+  return fenceCount % 2 === 1 ? `${clipped}\n\`\`\`` : clipped;
+}
+
+function buildPagerRow(
+  pageIndex: number,
+  pageCount: number,
+): ActionRowBuilder<ButtonBuilder> {
+  return new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder()
+      .setCustomId(PREVIOUS_PAGE_ID)
+      .setLabel("Previous")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(pageIndex === 0),
+    new ButtonBuilder()
+      .setCustomId(NEXT_PAGE_ID)
+      .setLabel("Next")
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(pageIndex === pageCount - 1),
+  );
+}
@@ -1,14 +1,42 @@
 import { ChannelType, type Client, type Message } from "discord.js";
-import { CodexBridge } from "../codex/bridge.ts";
-import { hasChannelMode, type BotConfig } from "../config.ts";
+import {
+  AgentBridge,
+  TurnCancelledError,
+  type AutoCompactOutcome,
+} from "../agent/bridge.ts";
+import type { AgentRateLimitWindow, AgentRateLimits } from "../agent/types.ts";
+import { AuditLog } from "../audit/log.ts";
+import {
+  MAX_INLINE_ATTACHMENT_BYTES,
+  hasChannelMode,
+  type BotConfig,
+} from "../config.ts";
 import { SessionStore } from "../session/store.ts";
 import type { SessionRecord } from "../session/types.ts";
+import {
+  appendTextBlocks,
+  cleanupAttachmentFiles,
+  collectPromptAttachments,
+  formatSkippedAttachments,
+  hasAttachments,
+} from "./attachments.ts";
+import { checkSessionAccess, resolvePermissionSubject } from "./permissions.ts";
+import {
+  buildReplyMessages,
+  deliverMessageReply,
+  sendFollowUpMessages,
+  type ReplyDeliveryOptions,
+} from "./reply-delivery.ts";
+import { createTurnProgressMessage, type TurnProgressMessage } from "./turn-progress.ts";
+
+const ATTACHMENT_ONLY_PROMPT = "Please take a look at the attached file(s).";
 
 interface MessageRelayContext {
   client: Client;
   config: BotConfig;
   store: SessionStore;
-  codex: CodexBridge;
+  agents: AgentBridge;
+  auditLog: AuditLog;
 }
 
 export function attachMessageRelay(context: MessageRelayContext): void {
@@ -21,7 +49,7 @@ export function attachMessageRelay(context: MessageRelayContext): void {
 
     const prompt = message.content.trim();
 
-    if (!prompt) {
+    if (!prompt && !hasAttachments(message)) {
       return;
     }
 
@@ -29,8 +57,8 @@ export function attachMessageRelay(context: MessageRelayContext): void {
       await handleMessage(message, context);
     } catch (error: unknown) {
       const messageText = error instanceof Error ? error.message : String(error);
-      await message.reply({
-        content: clipForDiscord(`Error: ${messageText}`),
+      await deliverMessageReply(message, `Error: ${messageText}`, {
+        attachmentThreshold: context.config.replyAttachmentThreshold,
       });
     }
   });
@@ -40,21 +68,137 @@ async function handleMessage(
   message: Message,
   context: MessageRelayContext,
 ): Promise<void> {
-  const prompt = message.content.trim();
+  const text = message.content.trim();
   const session = await resolveSession(message, context);
 
   if (!session) {
     return;
   }
 
+  const subject = await resolvePermissionSubject(
+    context.client,
+    context.config,
+    message.author.id,
+    message.member,
+  );
+  const denial = checkSessionAccess(context.config, subject, session);
+
+  if (denial) {
+    await message.reply({
+      content: denial,
+      allowedMentions: { parse: [] },
+    });
+    return;
+  }
+
+  const attachments = await collectPromptAttachments(message, {
+    maxTextBytes: context.config.attachmentMaxBytes,
+    maxTotalBytes: MAX_INLINE_ATTACHMENT_BYTES,
+  });
+  const { imagePaths, textBlocks, skipped } = attachments;
+
+  try {
+    if (skipped.length > 0) {
+      await deliverMessageReply(message, formatSkippedAttachments(skipped), {
+        attachmentThreshold: context.config.replyAttachmentThreshold,
+      });
+    }
+
+    if (!text && imagePaths.length === 0 && textBlocks.length === 0) {
+      return;
+    }
+
+    const prompt = appendTextBlocks(text || ATTACHMENT_ONLY_PROMPT, textBlocks);
+    // Inlined attachment contents are left out of the log; their names are enough to trace.
+    context.auditLog.record({
+      kind: "prompt",
+      userId: message.author.id,
+      sessionId: session.id,
+      projectPath: session.projectPath,
+      prompt: text || ATTACHMENT_ONLY_PROMPT,
+      channelId: message.channelId,
+      messageUrl: message.url,
+      attachmentNames: message.attachments.map((attachment) => attachment.name),
+    });
+    await relayPrompt(message, context, session, prompt, imagePaths);
+  } finally {
+    await cleanupAttachmentFiles(imagePaths);
+  }
+}
+
+async function relayPrompt(
+  message: Message,
+  context: MessageRelayContext,
+  session: SessionRecord,
+  prompt: string,
+  imagePaths: string[],
+): Promise<void> {
   if (message.channel.isTextBased() && "sendTyping" in message.channel) {
     await message.channel.sendTyping().catch(() => undefined);
   }
-  const result = await context.codex.sendMessage(session, prompt);
 
-  await message.reply({
-    content: clipForDiscord(result.reply),
-  });
+  const progress = await createTurnProgressMessage(message, session.agentBackend);
+  let held = false;
+
+  try {
+    const result = await context.agents.sendMessage(session, prompt, {
+      requester: {
+        userId: message.author.id,
+        messageUrl: message.url,
+      },
+      imagePaths,
+      onQueued: (position) => progress.queued(position),
+      onWaitingForSlot: (position) => progress.waitingForSlot(position),
+      onRateLimited: (resumeAtMs) => {
+        held = true;
+        progress.held(resumeAtMs);
+      },
+      onStart: () => {
+        progress.start();
+
+        if (held) {
+          held = false;
+          void notifyHeldPromptResumed(message);
+        }
+      },
+      onAutoCompact: (outcome) =>
+        void postAutoCompactNotice(message, context, session, outcome),
+      onProgress: (update) => progress.update(update),
+    });
+
+    const warning = formatRateLimitWarning(
+      result.rateLimits,
+      context.config.rateLimitWarningPercent,
+    );
+
+    await completeWithReply(message, progress, result.reply, {
+      attachmentThreshold: context.config.replyAttachmentThreshold,
+      footer: warning,
+    });
+  } catch (error: unknown) {
+    if (error instanceof TurnCancelledError) {
+      await progress.complete(error.message);
+      return;
+    }
+
+    const messageText = error instanceof Error ? error.message : String(error);
+    await completeWithReply(message, progress, `Error: ${messageText}`, {
+      attachmentThreshold: context.config.replyAttachmentThreshold,
+    });
+  }
+}
+
+// The progress message becomes the first part of the reply; the rest follows below it.
+async function completeWithReply(
+  message: Message,
+  progress: TurnProgressMessage,
+  content: string,
+  options: ReplyDeliveryOptions,
+): Promise<void> {
+  const [first = { content }, ...rest] = buildReplyMessages(content, options);
+
+  await progress.complete(first);
+  await sendFollowUpMessages(message, rest).catch(() => undefined);
 }
 
 async function resolveSession(
@@ -109,10 +253,70 @@ async function resolveDmSession(
   return focusedSession;
 }
 
-function clipForDiscord(content: string): string {
-  if (content.length <= 1900) {
-    return content;
+async function postAutoCompactNotice(
+  message: Message,
+  context: MessageRelayContext,
+  session: SessionRecord,
+  outcome: AutoCompactOutcome,
+): Promise<void> {
+  if (!message.channel.isSendable()) {
+    return;
+  }
+
+  const before = `${Math.round(outcome.percentLeftBefore)}%`;
+  const content = outcome.error
+    ? `Session \`${session.id}\` was down to ${before} context left. Automatic compaction failed: ${outcome.error}`
+    : `Session \`${session.id}\` was down to ${before} context left, so it was compacted automatically` +
+      (outcome.contextWindow
+        ? ` (now ${Math.round(outcome.contextWindow.percentLeft)}% left).`
+        : ".");
+
+  await sendFollowUpMessages(
+    message,
+    buildReplyMessages(content, {
+      attachmentThreshold: context.config.replyAttachmentThreshold,
+    }),
+  ).catch(() => undefined);
+}
+
+async function notifyHeldPromptResumed(message: Message): Promise<void> {
+  await message
+    .reply({
+      content: `<@${message.author.id}> the usage limit has reset, so your held prompt is running now.`,
+      allowedMentions: { users: [message.author.id] },
+    })
+    .catch(() => undefined);
+}
+
+function formatRateLimitWarning(
+  rateLimits: AgentRateLimits | undefined,
+  thresholdPercent: number,
+): string | undefined {
+  const windows = [rateLimits?.primary, rateLimits?.secondary].filter(
+    (window): window is AgentRateLimitWindow =>
+      window !== undefined && window.usedPercent >= thresholdPercent,
+  );
+
+  if (windows.length === 0) {
+    return undefined;
+  }
+
+  const parts = windows.map(
+    (window) =>
+      `${Math.round(Math.min(window.usedPercent, 100))}% of the ${formatWindowLength(window.windowMinutes)} limit used, resets <t:${Math.trunc(window.resetsAt)}:R>`,
+  );
+
+  return `-# Usage warning: ${parts.join("; ")}.`;
+}
+
+function formatWindowLength(minutes: number): string {
+  if (minutes >= 1440 && minutes % 1440 === 0) {
+    return `${minutes / 1440}d`;
+  }
+
+  if (minutes >= 60 && minutes % 60 === 0) {
+    return `${minutes / 60}h`;
   }
 
-  return `${content.slice(0, 1850)}\n... output truncated ...`;
+  return `${minutes}m`;
 }
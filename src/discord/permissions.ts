@@ -0,0 +1,161 @@
+import { isAbsolute, relative, sep } from "node:path";
+import type { APIInteractionGuildMember, Client, GuildMember } from "discord.js";
+import type { BotConfig } from "../config.ts";
+import type { SessionRecord } from "../session/types.ts";
+
+export type OwnerOnlyAction = "delete" | "sandbox" | "undo";
+
+// Completes "Only the session owner or a bot admin can ...".
+const OWNER_ONLY_ACTION_LABELS: Record<OwnerOnlyAction, string> = {
+  delete: "delete",
+  sandbox: "change sandbox settings for",
+  undo: "undo turns in",
+};
+
+export interface PermissionSubject {
+  userId: string;
+  roleIds: readonly string[];
+}
+
+/**
+ * Collects the user's guild roles for permission checks. Commands and messages in a guild
+ * carry the member; in DMs the member is fetched from the configured guild, and users
+ * outside it have no roles.
+ */
+export async function resolvePermissionSubject(
+  client: Client,
+  config: BotConfig,
+  userId: string,
+  member?: GuildMember | APIInteractionGuildMember | null,
+): Promise<PermissionSubject> {
+  if (member) {
+    return {
+      userId,
+      roleIds: Array.isArray(member.roles)
+        ? member.roles
+        : [...(member as GuildMember).roles.cache.keys()],
+    };
+  }
+
+  if (!config.guildId || !usesRoles(config)) {
+    return { userId, roleIds: [] };
+  }
+
+  try {
+    const guild = await client.guilds.fetch(config.guildId);
+    const guildMember = await guild.members.fetch(userId);
+
+    return {
+      userId,
+      roleIds: [...guildMember.roles.cache.keys()],
+    };
+  } catch {
+    return { userId, roleIds: [] };
+  }
+}
+
+export function isBotAdmin(config: BotConfig, subject: PermissionSubject): boolean {
+  const { adminUserIds, adminRoleIds } = config.permissions;
+
+  return (
+    adminUserIds.includes(subject.userId) ||
+    subject.roleIds.some((roleId) => adminRoleIds.includes(roleId))
+  );
+}
+
+export function checkAdminAccess(
+  config: BotConfig,
+  subject: PermissionSubject,
+  action: string,
+): string | undefined {
+  if (isBotAdmin(config, subject)) {
+    return undefined;
+  }
+
+  const { adminUserIds, adminRoleIds } = config.permissions;
+
+  return adminUserIds.length === 0 && adminRoleIds.length === 0
+    ? `Only bot admins can ${action}, and none are configured. Add them under "permissions" in the config file.`
+    : `Only bot admins can ${action}.`;
+}
+
+// Resolves to a denial message, or undefined when the user may use sessions for the project.
+export function checkProjectAccess(
+  config: BotConfig,
+  subject: PermissionSubject,
+  projectPath: string,
+): string | undefined {
+  const allowedRoleIds = findProjectRoleIds(config, projectPath);
+
+  if (
+    !allowedRoleIds ||
+    isBotAdmin(config, subject) ||
+    subject.roleIds.some((roleId) => allowedRoleIds.includes(roleId))
+  ) {
+    return undefined;
+  }
+
+  return (
+    `Project \`${projectPath}\` is limited to members with ` +
+    `${allowedRoleIds.map((roleId) => `<@&${roleId}>`).join(", ")}.`
+  );
+}
+
+// Owners keep access to their own sessions even if a project's roles change later.
+export function checkSessionAccess(
+  config: BotConfig,
+  subject: PermissionSubject,
+  session: SessionRecord,
+): string | undefined {
+  if (session.createdByUserId === subject.userId) {
+    return undefined;
+  }
+
+  const denial = checkProjectAccess(config, subject, session.projectPath);
+
+  return denial
+    ? `You do not have access to session \`${session.id}\`. ${denial}`
+    : undefined;
+}
+
+export function checkOwnerAction(
+  config: BotConfig,
+  subject: PermissionSubject,
+  session: SessionRecord,
+  action: OwnerOnlyAction,
+): string | undefined {
+  if (session.createdByUserId === subject.userId || isBotAdmin(config, subject)) {
+    return undefined;
+  }
+
+  return (
+    `Only the session owner (<@${session.createdByUserId}>) or a bot admin can ` +
+    `${OWNER_ONLY_ACTION_LABELS[action]} \`${session.id}\`.`
+  );
+}
+
+function usesRoles(config: BotConfig): boolean {
+  const { adminRoleIds, projectRoleIds } = config.permissions;
+
+  return adminRoleIds.length > 0 || Object.keys(projectRoleIds).length > 0;
+}
+
+// The most specific configured project containing `projectPath` decides its roles.
+function findProjectRoleIds(
+  config: BotConfig,
+  projectPath: string,
+): readonly string[] | undefined {
+  let match: { path: string; roleIds: string[] } | undefined;
+
+  for (const [path, roleIds] of Object.entries(config.permissions.projectRoleIds)) {
+    const offset = relative(path, projectPath);
+    const contains =
+      offset !== ".." && !offset.startsWith(`..${sep}`) && !isAbsolute(offset);
+
+    if (contains && (!match || path.length > match.path.length)) {
+      match = { path, roleIds };
+    }
+  }
+
+  return match?.roleIds;
+}
@@ -0,0 +1,274 @@
+import {
+  AttachmentBuilder,
+  type ChatInputCommandInteraction,
+  type Message,
+  type MessageMentionOptions,
+} from "discord.js";
+
+// Discord allows 2000 characters per message; the rest is headroom for fence markers.
+const MESSAGE_CHUNK_LIMIT = 1_900;
+const PREVIEW_LIMIT = 800;
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})/;
+
+export interface ReplyMessage {
+  content: string;
+  files?: AttachmentBuilder[];
+  allowedMentions?: MessageMentionOptions;
+}
+
+export interface ReplyDeliveryOptions {
+  // Replies longer than this many characters are uploaded as a Markdown file with a preview.
+  attachmentThreshold: number;
+  // Appended after the reply, such as a usage warning.
+  footer?: string;
+  attachmentName?: string;
+  allowedMentions?: MessageMentionOptions;
+}
+
+interface ReplyBlock {
+  lines: string[];
+  // The opening line of the fenced code block these lines belong to.
+  fence?: string;
+}
+
+/**
+ * Turns a reply into the messages that carry it: one message when it fits, several split
+ * at paragraph and code block boundaries when it does not, or a short preview with the
+ * full text attached once it passes `attachmentThreshold`.
+ */
+export function buildReplyMessages(
+  content: string,
+  options: ReplyDeliveryOptions,
+): ReplyMessage[] {
+  const footer = options.footer ? `\n\n${options.footer}` : "";
+  const { allowedMentions } = options;
+
+  if (content.length > options.attachmentThreshold) {
+    const [preview = ""] = splitReply(content, PREVIEW_LIMIT);
+    const attachmentName = options.attachmentName ?? "reply.md";
+
+    return [
+      {
+        content:
+          `${preview}\n…\n\n-# Full reply (${content.length.toLocaleString("en-US")} ` +
+          `characters) attached as \`${attachmentName}\`.${footer}`,
+        files: [
+          new AttachmentBuilder(Buffer.from(content, "utf8"), {
+            name: attachmentName,
+          }),
+        ],
+        allowedMentions,
+      },
+    ];
+  }
+
+  const chunks = splitReply(content, MESSAGE_CHUNK_LIMIT);
+  const last = chunks.at(-1) ?? "";
+
+  if (footer && last.length + footer.length <= MESSAGE_CHUNK_LIMIT) {
+    chunks[chunks.length - 1] = `${last}${footer}`;
+  } else if (footer) {
+    chunks.push(footer.trim());
+  }
+
+  return chunks.map((chunk) => ({ content: chunk, allowedMentions }));
+}
+
+// Answers a slash command, then posts any further messages as follow-ups.
+export async function deliverInteractionReply(
+  interaction: ChatInputCommandInteraction,
+  content: string,
+  options: ReplyDeliveryOptions,
+): Promise<void> {
+  const [first, ...rest] = buildReplyMessages(content, options);
+
+  if (!first) {
+    return;
+  }
+
+  if (interaction.deferred) {
+    await interaction.editReply(first);
+  } else {
+    await interaction.reply(first);
+  }
+
+  for (const reply of rest) {
+    await interaction.followUp(reply);
+  }
+}
+
+// Replies to a message, then posts any further messages in the same channel.
+export async function deliverMessageReply(
+  message: Message,
+  content: string,
+  options: ReplyDeliveryOptions,
+): Promise<void> {
+  const [first, ...rest] = buildReplyMessages(content, options);
+
+  if (!first) {
+    return;
+  }
+
+  await message.reply(first);
+  await sendFollowUpMessages(message, rest);
+}
+
+export async function sendFollowUpMessages(
+  message: Message,
+  replies: readonly ReplyMessage[],
+): Promise<void> {
+  if (!message.channel.isSendable()) {
+    return;
+  }
+
+  for (const reply of replies) {
+    await message.channel.send(reply);
+  }
+}
+
+/**
+ * Splits text into chunks of at most `limit` characters. Paragraphs and code blocks are
+ * kept whole when they fit; a code block that does not is split by lines, and every piece
+ * is closed and re-opened with the original fence line so its language carries over.
+ */
+export function splitReply(content: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const block of splitBlocks(content)) {
+    for (const piece of fitBlock(block, limit)) {
+      if (!current) {
+        current = piece;
+      } else if (current.length + 1 + piece.length <= limit) {
+        current = `${current}\n${piece}`;
+      } else {
+        chunks.push(current);
+        current = piece;
+      }
+    }
+  }
+
+  chunks.push(current);
+
+  return chunks.map((chunk) => chunk.trimEnd()).filter((chunk) => chunk.trim());
+}
+
+// Paragraphs end at a blank line, which stays with them; code blocks run to their closing
+// fence, or to the end of the text when they are never closed.
+function splitBlocks(content: string): ReplyBlock[] {
+  const blocks: ReplyBlock[] = [];
+  let lines: string[] = [];
+  let fence: string | undefined;
+
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    const isFenceLine = FENCE_PATTERN.test(line);
+
+    if (fence) {
+      lines.push(line);
+
+      if (isFenceLine && closesFence(fence, line)) {
+        blocks.push({ lines, fence });
+        lines = [];
+        fence = undefined;
+      }
+      continue;
+    }
+
+    if (isFenceLine) {
+      if (lines.length > 0) {
+        blocks.push({ lines });
+      }
+
+      lines = [line];
+      fence = line;
+      continue;
+    }
+
+    lines.push(line);
+
+    if (!line.trim()) {
+      blocks.push({ lines });
+      lines = [];
+    }
+  }
+
+  if (lines.length > 0) {
+    blocks.push({ lines, fence });
+  }
+
+  return blocks;
+}
+
+function fitBlock(block: ReplyBlock, limit: number): string[] {
+  const text = block.lines.join("\n");
+
+  if (text.length <= limit) {
+    return [text];
+  }
+
+  if (!block.fence) {
+    return packLines(block.lines, limit);
+  }
+
+  const opener = block.fence.trimEnd();
+  const marker = FENCE_PATTERN.exec(opener)?.[1] ?? "```";
+  const lastLine = block.lines.at(-1) ?? "";
+  const closed = block.lines.length > 1 && closesFence(block.fence, lastLine);
+  const body = block.lines.slice(1, closed ? -1 : undefined);
+  const bodyLimit = limit - opener.length - marker.length - 2;
+
+  return packLines(body, bodyLimit).map((piece) => `${opener}\n${piece}\n${marker}`);
+}
+
+function packLines(lines: readonly string[], limit: number): string[] {
+  const pieces: string[] = [];
+  let current: string | undefined;
+
+  for (const line of lines.flatMap((entry) => splitLongLine(entry, limit))) {
+    if (current === undefined) {
+      current = line;
+    } else if (current.length + 1 + line.length <= limit) {
+      current = `${current}\n${line}`;
+    } else {
+      pieces.push(current);
+      current = line;
+    }
+  }
+
+  if (current !== undefined) {
+    pieces.push(current);
+  }
+
+  return pieces;
+}
+
+// Breaks a line longer than `limit` at spaces where it can, and mid-word where it cannot.
+function splitLongLine(line: string, limit: number): string[] {
+  const parts: string[] = [];
+  let rest = line;
+
+  while (rest.length > limit) {
+    const space = rest.lastIndexOf(" ", limit);
+    const cut = space > limit / 2 ? space : limit;
+
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut).replace(/^ /, "");
+  }
+
+  parts.push(rest);
+
+  return parts;
+}
+
+// A fence closes with the same character, at least as many times, and nothing after it.
+function closesFence(opener: string, line: string): boolean {
+  const openMarker = FENCE_PATTERN.exec(opener)?.[1] ?? "```";
+  const trimmed = line.trim();
+  const closeMarker = /^(`{3,}|~{3,})$/.exec(trimmed)?.[1];
+
+  return (
+    closeMarker !== undefined &&
+    closeMarker[0] === openMarker[0] &&
+    closeMarker.length >= openMarker.length
+  );
+}
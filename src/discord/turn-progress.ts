@@ -0,0 +1,182 @@
+import type { Message } from "discord.js";
+import type { AgentTurnProgress } from "../agent/types.ts";
+import type { ReplyMessage } from "./reply-delivery.ts";
+
+const PROGRESS_EDIT_INTERVAL_MS = 1_500;
+const PROGRESS_CONTENT_LIMIT = 1_900;
+const MAX_PROGRESS_ENTRIES = 8;
+const MAX_ENTRY_LENGTH = 600;
+
+export interface TurnProgressMessage {
+  queued(position: number): void;
+  waitingForSlot(position: number): void;
+  held(resumeAtMs: number): void;
+  start(): void;
+  update(progress: AgentTurnProgress): void;
+  // Replaces the progress message with the reply, or its first part when it is split.
+  complete(reply: string | ReplyMessage): Promise<void>;
+}
+
+export async function createTurnProgressMessage(
+  message: Message,
+  agentLabel = "Codex",
+): Promise<TurnProgressMessage> {
+  let startedAt = Date.now();
+  const entries: string[] = [];
+  let lastActivityAt = startedAt;
+  let editTimer: NodeJS.Timeout | undefined;
+  let editChain: Promise<void> = Promise.resolve();
+  let waiting = false;
+  let finished = false;
+
+  const progressMessage = await message.reply({
+    content: renderProgress(agentLabel, entries, startedAt, lastActivityAt),
+  });
+
+  const enqueueEdit = (content: string | ReplyMessage): Promise<void> => {
+    editChain = editChain
+      .then(() =>
+        progressMessage.edit(typeof content === "string" ? { content } : content),
+      )
+      .then(
+        () => undefined,
+        () => undefined,
+      );
+    return editChain;
+  };
+
+  const scheduleEdit = (): void => {
+    if (editTimer || finished) {
+      return;
+    }
+
+    editTimer = setTimeout(() => {
+      editTimer = undefined;
+
+      if (!finished) {
+        void enqueueEdit(renderProgress(agentLabel, entries, startedAt, lastActivityAt));
+      }
+    }, PROGRESS_EDIT_INTERVAL_MS);
+  };
+
+  return {
+    queued(position) {
+      if (finished) {
+        return;
+      }
+
+      waiting = true;
+      void enqueueEdit(
+        `Queued at position ${position}. Waiting for the running turn in this session to finish…`,
+      );
+    },
+    waitingForSlot(position) {
+      if (finished) {
+        return;
+      }
+
+      waiting = true;
+      void enqueueEdit(
+        `Waiting for a free slot (position ${position}). Turns in other sessions are using all available slots…`,
+      );
+    },
+    held(resumeAtMs) {
+      if (finished) {
+        return;
+      }
+
+      const resumeAt = toEpochSeconds(resumeAtMs);
+      waiting = true;
+      entries.length = 0;
+      void enqueueEdit(
+        `${agentLabel} usage limit reached. ` +
+          `This prompt is on hold and will run automatically at <t:${resumeAt}:f> (<t:${resumeAt}:R>).`,
+      );
+    },
+    start() {
+      if (finished || !waiting) {
+        return;
+      }
+
+      waiting = false;
+      startedAt = Date.now();
+      lastActivityAt = startedAt;
+      void enqueueEdit(renderProgress(agentLabel, entries, startedAt, lastActivityAt));
+    },
+    update(progress) {
+      if (finished) {
+        return;
+      }
+
+      entries.push(formatProgressEntry(progress));
+
+      if (entries.length > MAX_PROGRESS_ENTRIES) {
+        entries.splice(0, entries.length - MAX_PROGRESS_ENTRIES);
+      }
+
+      lastActivityAt = Date.now();
+      scheduleEdit();
+    },
+    async complete(reply) {
+      finished = true;
+
+      if (editTimer) {
+        clearTimeout(editTimer);
+        editTimer = undefined;
+      }
+
+      await enqueueEdit(reply);
+    },
+  };
+}
+
+function formatProgressEntry(progress: AgentTurnProgress): string {
+  switch (progress.kind) {
+    case "agent_message":
+      return clipEntry(progress.text);
+    case "reasoning":
+      return `-# Reasoning: ${clipEntry(progress.text.replace(/\s+/g, " "))}`;
+    case "command": {
+      const exitLabel =
+        typeof progress.exitCode === "number" ? ` (exit ${progress.exitCode})` : "";
+      const statusLabel = progress.status === "started" ? "Running" : "Ran";
+      return `-# ${statusLabel} \`${clipEntry(progress.command.replace(/`/g, "'"), 200)}\`${exitLabel}`;
+    }
+  }
+}
+
+function renderProgress(
+  agentLabel: string,
+  entries: string[],
+  startedAt: number,
+  lastActivityAt: number,
+): string {
+  const header =
+    `${agentLabel} is working… started <t:${toEpochSeconds(startedAt)}:R>, ` +
+    `last activity <t:${toEpochSeconds(lastActivityAt)}:R>`;
+  const body = entries.join("\n");
+
+  if (!body) {
+    return header;
+  }
+
+  const available = PROGRESS_CONTENT_LIMIT - header.length - 2;
+  const visibleBody =
+    body.length > available ? `…${body.slice(body.length - available + 1)}` : body;
+
+  return `${header}\n\n${visibleBody}`;
+}
+
+function clipEntry(text: string, limit = MAX_ENTRY_LENGTH): string {
+  const trimmed = text.trim();
+
+  if (trimmed.length <= limit) {
+    return trimmed;
+  }
+
+  return `${trimmed.slice(0, limit - 1)}…`;
+}
+
+function toEpochSeconds(timestampMs: number): number {
+  return Math.trunc(timestampMs / 1000);
+}
@@ -0,0 +1,159 @@
+import { SessionStore } from "../session/store.ts";
+import type { CheckpointRecord, SessionRecord } from "../session/types.ts";
+import { GitRepository } from "./repository.ts";
+
+const MAX_CHECKPOINTS_PER_SESSION = 50;
+const CHECKPOINT_PROMPT_LENGTH = 200;
+const CHECKPOINT_REF_PREFIX = "refs/vibecord/checkpoints";
+const PRE_RESTORE_REF_PREFIX = "pre-restore-";
+
+export interface RestoredCheckpoint {
+  checkpoint: CheckpointRecord;
+  discarded: number;
+  // Snapshot of the files just before the restore, so a mistaken /undo can be reverted.
+  backupCommit: string;
+  backupRef: string;
+}
+
+/**
+ * Per-session snapshots of a project's files, taken before each agent turn so a turn's
+ * changes can be rolled back. Each snapshot commit is pinned by a ref under
+ * refs/vibecord/checkpoints so git does not garbage-collect it.
+ */
+export class SessionCheckpoints {
+  private readonly store: SessionStore;
+
+  constructor(store: SessionStore) {
+    this.store = store;
+  }
+
+  // Projects outside a git work tree are skipped and resolve to undefined.
+  async capture(
+    session: SessionRecord,
+    prompt: string,
+  ): Promise<CheckpointRecord | undefined> {
+    const repository = await GitRepository.tryOpen(session.projectPath);
+
+    if (!repository) {
+      return undefined;
+    }
+
+    const commit = await repository.snapshot(`vibecord checkpoint for session ${session.id}`);
+    const checkpoint: CheckpointRecord = {
+      commit,
+      cwd: repository.cwd,
+      prompt: clipPrompt(prompt),
+      createdAt: new Date().toISOString(),
+    };
+
+    await repository.updateRef(buildCheckpointRef(session.id, checkpoint), commit);
+    const dropped = await this.store.addCheckpoint(
+      session.id,
+      checkpoint,
+      MAX_CHECKPOINTS_PER_SESSION,
+    );
+    await this.releaseRefs(session.id, dropped);
+
+    return checkpoint;
+  }
+
+  list(sessionId: string): Promise<CheckpointRecord[]> {
+    return this.store.listCheckpoints(sessionId);
+  }
+
+  /**
+   * Restores the files to how they were before the `steps`-th most recent turn. That
+   * checkpoint and all later ones are dropped, so repeating an undo keeps going back.
+   */
+  async restore(sessionId: string, steps: number): Promise<RestoredCheckpoint> {
+    const checkpoints = await this.store.listCheckpoints(sessionId);
+    const index = checkpoints.length - steps;
+    const checkpoint = index >= 0 ? checkpoints[index] : undefined;
+
+    if (!checkpoint) {
+      throw new Error(
+        `Session ${sessionId} has ${checkpoints.length} checkpoint(s), so it cannot go back ${steps} turn(s).`,
+      );
+    }
+
+    const repository = await GitRepository.open(checkpoint.cwd);
+    const backupCommit = await repository.snapshot(
+      `vibecord: session ${sessionId} before restoring ${checkpoint.commit}`,
+    );
+    const backupRef =
+      `${CHECKPOINT_REF_PREFIX}/${sessionId}/` +
+      `${PRE_RESTORE_REF_PREFIX}${Date.now()}-${backupCommit}`;
+
+    // Pinned before any file changes, so a restore that fails halfway can still be reverted.
+    await repository.updateRef(backupRef, backupCommit);
+    await repository.restoreSnapshot(checkpoint.commit, backupCommit);
+    const removed = await this.store.truncateCheckpoints(sessionId, index);
+    await this.releaseRefs(sessionId, removed);
+
+    return {
+      checkpoint,
+      discarded: removed.length,
+      backupCommit,
+      backupRef,
+    };
+  }
+
+  async clear(sessionId: string): Promise<void> {
+    const session = await this.store.getSession(sessionId);
+    const removed = await this.store.truncateCheckpoints(sessionId, 0);
+    await this.releaseRefs(sessionId, removed);
+
+    if (session) {
+      await this.releaseBackupRefs(session);
+    }
+  }
+
+  // Snapshots taken before restores are not in the checkpoint list; only their refs are.
+  private async releaseBackupRefs(session: SessionRecord): Promise<void> {
+    try {
+      const repository = await GitRepository.tryOpen(session.projectPath);
+
+      if (!repository) {
+        return;
+      }
+
+      const refs = await repository.listRefs(
+        `${CHECKPOINT_REF_PREFIX}/${session.id}/${PRE_RESTORE_REF_PREFIX}*`,
+      );
+
+      for (const ref of refs) {
+        await repository.deleteRef(ref);
+      }
+    } catch {
+      // As with checkpoints, a leftover ref only keeps an old snapshot alive.
+    }
+  }
+
+  private async releaseRefs(
+    sessionId: string,
+    checkpoints: readonly CheckpointRecord[],
+  ): Promise<void> {
+    for (const checkpoint of checkpoints) {
+      try {
+        const repository = await GitRepository.tryOpen(checkpoint.cwd);
+        await repository?.deleteRef(buildCheckpointRef(sessionId, checkpoint));
+      } catch {
+        // A ref left behind only keeps an old snapshot from being garbage-collected.
+      }
+    }
+  }
+}
+
+// Two snapshots of an unchanged tree taken within the same second share a commit, so the
+// creation time is part of the ref name.
+function buildCheckpointRef(sessionId: string, checkpoint: CheckpointRecord): string {
+  return `${CHECKPOINT_REF_PREFIX}/${sessionId}/${Date.parse(checkpoint.createdAt)}-${checkpoint.commit}`;
+}
+
+function clipPrompt(prompt: string): string {
+  const singleLine = prompt.replace(/\s+/g, " ").trim();
+
+  return singleLine.length > CHECKPOINT_PROMPT_LENGTH
+    ? `${singleLine.slice(0, CHECKPOINT_PROMPT_LENGTH - 1)}…`
+    : singleLine;
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from "node:crypto";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runProcess } from "../agent/process.ts";
+import { resolveWorkingDirectory } from "../agent/working-directory.ts";
+
+const GIT_BINARY = "git";
+const GIT_TIMEOUT_MS = 30_000;
+// Diffing against the empty tree lets a repository without commits show its files as added.
+const EMPTY_TREE_HASH = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+// Snapshot commits are internal, so they must not depend on the host's git identity.
+const SNAPSHOT_IDENTITY = {
+  GIT_AUTHOR_NAME: "vibecord",
+  GIT_AUTHOR_EMAIL: "vibecord@localhost",
+  GIT_COMMITTER_NAME: "vibecord",
+  GIT_COMMITTER_EMAIL: "vibecord@localhost",
+};
+
+/**
+ * Runs git commands in the directory agent turns for a project run in. Apart from restoring
+ * a snapshot, nothing here changes HEAD, the index, branches or the working tree.
+ */
+export class GitRepository {
+  readonly cwd: string;
+
+  private constructor(cwd: string) {
+    this.cwd = cwd;
+  }
+
+  static async open(projectPath: string): Promise<GitRepository> {
+    const cwd = await resolveWorkingDirectory(projectPath);
+    const repository = await GitRepository.tryOpen(cwd);
+
+    if (!repository) {
+      throw new Error(`\`${cwd}\` is not inside a git repository.`);
+    }
+
+    return repository;
+  }
+
+  // Resolves to undefined when the project path is missing or not inside a git work tree.
+  static async tryOpen(projectPath: string): Promise<GitRepository | undefined> {
+    const cwd = await resolveWorkingDirectory(projectPath).catch(() => undefined);
+
+    if (!cwd) {
+      return undefined;
+    }
+
+    const result = await runProcess(GIT_BINARY, ["rev-parse", "--is-inside-work-tree"], cwd, {
+      notFoundMessage: 'Unable to find "git" in PATH. Install git to use this command.',
+      timeoutMs: GIT_TIMEOUT_MS,
+    });
+
+    return result.exitCode === 0 && result.stdout.trim() === "true"
+      ? new GitRepository(cwd)
+      : undefined;
+  }
+
+  // Staged and unstaged changes against HEAD, limited to `path` when given.
+  async diff(path?: string): Promise<string> {
+    return this.run(["diff", "--no-color", await this.resolveBase(), ...pathspec(path)]);
+  }
+
+  async diffStat(path?: string): Promise<string> {
+    return this.run(["diff", "--shortstat", await this.resolveBase(), ...pathspec(path)]);
+  }
+
+  async status(): Promise<string> {
+    return this.run(["status", "--short", "--branch"]);
+  }
+
+  /**
+   * Records the files under the working directory, including untracked but not ignored
+   * ones, as a commit on top of HEAD. A throwaway index is used so the user's staging area
+   * is left alone.
+   */
+  async snapshot(message: string): Promise<string> {
+    const indexFile = join(tmpdir(), `vibecord-index-${randomUUID()}`);
+    const env = { ...SNAPSHOT_IDENTITY, GIT_INDEX_FILE: indexFile };
+
+    try {
+      const head = await this.resolveHead();
+
+      if (head) {
+        await this.run(["read-tree", head], env);
+      }
+
+      await this.run(["add", "--all", "--", "."], env);
+      const tree = (await this.run(["write-tree"], env)).trim();
+      const parentArgs = head ? ["-p", head] : [];
+
+      return (await this.run(["commit-tree", tree, ...parentArgs, "-m", message], env)).trim();
+    } finally {
+      await rm(indexFile, { force: true });
+    }
+  }
+
+  /**
+   * Makes the files under the working directory match a snapshot: changed and deleted files
+   * are restored, and files created since the snapshot are removed. `current` is a snapshot
+   * of the files as they are now, which tells the created files apart.
+   */
+  async restoreSnapshot(commit: string, current: string): Promise<void> {
+    const createdFiles = (
+      await this.run([
+        "diff",
+        "--name-only",
+        "--relative",
+        "--diff-filter=A",
+        "-z",
+        commit,
+        current,
+        "--",
+        ".",
+      ])
+    )
+      .split("\0")
+      .filter(Boolean);
+
+    for (const filePath of createdFiles) {
+      await rm(join(this.cwd, filePath), { force: true });
+    }
+
+    await this.run(["restore", `--source=${commit}`, "--worktree", "--", "."]);
+  }
+
+  async updateRef(ref: string, commit: string): Promise<void> {
+    await this.run(["update-ref", ref, commit]);
+  }
+
+  async deleteRef(ref: string): Promise<void> {
+    await this.run(["update-ref", "-d", ref]);
+  }
+
+  async listRefs(pattern: string): Promise<string[]> {
+    const output = await this.run(["for-each-ref", "--format=%(refname)", pattern]);
+
+    return output.split("\n").filter(Boolean);
+  }
+
+  private async resolveBase(): Promise<string> {
+    return (await this.resolveHead()) ? "HEAD" : EMPTY_TREE_HASH;
+  }
+
+  private async resolveHead(): Promise<string | undefined> {
+    const result = await runProcess(
+      GIT_BINARY,
+      ["rev-parse", "--verify", "--quiet", "HEAD"],
+      this.cwd,
+      { timeoutMs: GIT_TIMEOUT_MS },
+    );
+
+    return result.exitCode === 0 ? result.stdout.trim() : undefined;
+  }
+
+  private async run(args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+    const result = await runProcess(GIT_BINARY, ["--no-pager", ...args], this.cwd, {
+      timeoutMs: GIT_TIMEOUT_MS,
+      env,
+    });
+
+    if (result.timedOut) {
+      throw new Error(`git ${args[0]} timed out after ${GIT_TIMEOUT_MS / 1000}s.`);
+    }
+
+    if (result.exitCode !== 0) {
+      throw new Error(
+        `git ${args[0]} failed: ${result.stderr.trim() || result.stdout.trim() || `exit code ${result.exitCode}`}`,
+      );
+    }
+
+    return result.stdout;
+  }
+}
+
+function pathspec(path: string | undefined): string[] {
+  return path ? ["--", path] : [];
+}
@@ -0,0 +1,181 @@
+import { cp, mkdir, readdir, realpath, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
+
+export interface ResolvedProjectPath {
+  path: string;
+  exists: boolean;
+}
+
+/**
+ * Turns a project path typed by a user into an absolute one and checks it against the
+ * configured workspace roots. Relative paths resolve against the first root. Symlinks are
+ * followed before the check, so a link inside a root cannot point a session elsewhere.
+ */
+export async function resolveProjectPath(
+  rawPath: string,
+  workspaceRoots: readonly string[],
+): Promise<ResolvedProjectPath> {
+  const trimmed = rawPath.trim();
+
+  if (!trimmed) {
+    throw new Error("Project path cannot be empty.");
+  }
+
+  const expanded = expandHomeDirectory(trimmed);
+  const [firstRoot] = workspaceRoots;
+  const path =
+    isAbsolute(expanded) || !firstRoot ? resolve(expanded) : resolve(firstRoot, expanded);
+
+  if (workspaceRoots.length > 0 && !(await isInsideWorkspaceRoots(path, workspaceRoots))) {
+    throw new Error(
+      `Project path \`${path}\` is outside the workspace roots: ` +
+        `${workspaceRoots.map((root) => `\`${root}\``).join(", ")}.`,
+    );
+  }
+
+  const details = await stat(path).catch(() => undefined);
+
+  if (details && !details.isDirectory()) {
+    throw new Error(`Project path \`${path}\` is not a directory.`);
+  }
+
+  return {
+    path,
+    exists: Boolean(details),
+  };
+}
+
+/**
+ * Creates a project directory, copying a template's files into it when one is given. A
+ * template is only copied into a missing or empty directory so no existing file is replaced.
+ */
+export async function createProjectDirectory(
+  path: string,
+  templateDirectory?: string,
+): Promise<void> {
+  if (!templateDirectory) {
+    await mkdir(path, { recursive: true });
+    return;
+  }
+
+  const template = await stat(templateDirectory).catch(() => undefined);
+
+  if (!template?.isDirectory()) {
+    throw new Error(`Template directory \`${templateDirectory}\` does not exist.`);
+  }
+
+  const existingEntries = await readdir(path).catch(() => []);
+
+  if (existingEntries.length > 0) {
+    throw new Error(
+      `Project path \`${path}\` is not empty, so the template was not copied into it.`,
+    );
+  }
+
+  await cp(templateDirectory, path, {
+    recursive: true,
+    errorOnExist: true,
+    force: false,
+  });
+}
+
+/**
+ * Suggests project paths for a partially typed one: existing session projects first, then
+ * directories inside the workspace roots. The last path segment of `query` filters the
+ * entries of the directory named by the part before it, so suggestions follow typing one
+ * level at a time.
+ */
+export async function suggestProjectPaths(
+  query: string,
+  workspaceRoots: readonly string[],
+  knownProjectPaths: readonly string[],
+  limit: number,
+): Promise<string[]> {
+  const typed = expandHomeDirectory(query.trim());
+  const needle = typed.toLowerCase();
+  const suggestions = new Set<string>();
+
+  for (const path of [...knownProjectPaths, ...workspaceRoots]) {
+    if (path.toLowerCase().includes(needle)) {
+      suggestions.add(path);
+    }
+  }
+
+  const browseDirectory = typed.endsWith(sep) ? typed : dirname(typed);
+  const partial = typed.endsWith(sep) ? "" : basename(typed).toLowerCase();
+  const parents = isAbsolute(typed)
+    ? [resolve(browseDirectory)]
+    : workspaceRoots.map((root) => resolve(root, browseDirectory));
+
+  for (const parent of parents) {
+    if (suggestions.size >= limit) {
+      break;
+    }
+
+    if (
+      workspaceRoots.length > 0 &&
+      !(await isInsideWorkspaceRoots(parent, workspaceRoots))
+    ) {
+      continue;
+    }
+
+    const entries = await readdir(parent, { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const name = entry.name.toLowerCase();
+
+      // Symlinked directories are left out; they may point outside the roots.
+      if (
+        entry.isDirectory() &&
+        name.includes(partial) &&
+        (!name.startsWith(".") || partial.startsWith("."))
+      ) {
+        suggestions.add(resolve(parent, entry.name));
+      }
+    }
+  }
+
+  return [...suggestions].slice(0, limit);
+}
+
+async function isInsideWorkspaceRoots(
+  path: string,
+  workspaceRoots: readonly string[],
+): Promise<boolean> {
+  const realPath = await resolveRealPath(path);
+
+  for (const root of workspaceRoots) {
+    const offset = relative(await resolveRealPath(root), realPath);
+
+    if (offset !== ".." && !offset.startsWith(`..${sep}`) && !isAbsolute(offset)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+// Paths that do not exist yet resolve through their nearest existing ancestor.
+async function resolveRealPath(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch {
+    const parent = dirname(path);
+
+    if (parent === path) {
+      return path;
+    }
+
+    return resolve(await resolveRealPath(parent), relative(parent, path));
+  }
+}
+
+function expandHomeDirectory(path: string): string {
+  if (path === "~") {
+    return homedir();
+  }
+
+  return path.startsWith("~/") ? resolve(homedir(), path.slice(2)) : path;
+}
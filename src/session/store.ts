@@ -1,10 +1,17 @@
 import { randomUUID } from "node:crypto";
 import { basename, dirname } from "node:path";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
-import type {
-  CreateSessionInput,
-  SessionRecord,
-  SessionState,
+import type { AgentRateLimits } from "../agent/types.ts";
+import {
+  REASONING_EFFORTS,
+  SANDBOX_MODES,
+  type CheckpointRecord,
+  type CreateSessionInput,
+  type RateLimitRecord,
+  type ReasoningEffort,
+  type SandboxMode,
+  type SessionRecord,
+  type SessionState,
 } from "./types.ts";
 
 export class SessionStore {
@@ -47,6 +54,16 @@ export class SessionStore {
         throw new Error("Project path cannot be empty.");
       }
 
+      const boundSession = input.codexThreadId
+        ? state.sessions.find((session) => session.codexThreadId === input.codexThreadId)
+        : undefined;
+
+      if (boundSession) {
+        throw new Error(
+          `Codex thread ${input.codexThreadId} is already bound to session ${boundSession.id}.`,
+        );
+      }
+
       const defaultTitle = `${basename(projectPath) || "session"} session`;
       const title = input.title?.trim() || defaultTitle;
       const [idPart] = randomUUID().split("-");
@@ -60,6 +77,18 @@ export class SessionStore {
         createdAt: new Date().toISOString(),
       };
 
+      if (input.agentBackend) {
+        newSession.agentBackend = input.agentBackend;
+      }
+
+      if (input.codexThreadId) {
+        newSession.codexThreadId = input.codexThreadId;
+      }
+
+      if (input.codexRolloutPath) {
+        newSession.codexRolloutPath = input.codexRolloutPath;
+      }
+
       state.sessions.push(newSession);
       return newSession;
     });
@@ -74,6 +103,7 @@ export class SessionStore {
       }
 
       const [deletedSession] = state.sessions.splice(index, 1);
+      delete state.checkpointsBySessionId?.[sessionId];
 
       for (const [userId, focusedSessionId] of Object.entries(
         state.focusedSessionByUserId,
@@ -105,6 +135,68 @@ export class SessionStore {
     });
   }
 
+  async getRateLimits(backend: string): Promise<RateLimitRecord | undefined> {
+    await this.queue;
+    const state = await this.readState();
+    return state.rateLimitsByBackend?.[backend];
+  }
+
+  async setRateLimits(backend: string, rateLimits: AgentRateLimits): Promise<void> {
+    await this.withMutation(async (state) => {
+      state.rateLimitsByBackend = {
+        ...state.rateLimitsByBackend,
+        [backend]: {
+          recordedAt: new Date().toISOString(),
+          rateLimits,
+        },
+      };
+    });
+  }
+
+  async listCheckpoints(sessionId: string): Promise<CheckpointRecord[]> {
+    await this.queue;
+    const state = await this.readState();
+    return [...(state.checkpointsBySessionId?.[sessionId] ?? [])];
+  }
+
+  // Appends a checkpoint and returns the oldest ones dropped to stay within `maxCount`.
+  async addCheckpoint(
+    sessionId: string,
+    checkpoint: CheckpointRecord,
+    maxCount: number,
+  ): Promise<CheckpointRecord[]> {
+    return this.withMutation(async (state) => {
+      if (!state.sessions.some((session) => session.id === sessionId)) {
+        throw new Error(`Session ${sessionId} does not exist.`);
+      }
+
+      const checkpoints = [...(state.checkpointsBySessionId?.[sessionId] ?? []), checkpoint];
+      const dropped = checkpoints.splice(0, Math.max(0, checkpoints.length - maxCount));
+
+      state.checkpointsBySessionId = {
+        ...state.checkpointsBySessionId,
+        [sessionId]: checkpoints,
+      };
+
+      return dropped;
+    });
+  }
+
+  // Removes the checkpoint at `index` and every later one, returning the removed records.
+  async truncateCheckpoints(sessionId: string, index: number): Promise<CheckpointRecord[]> {
+    return this.withMutation(async (state) => {
+      const checkpoints = state.checkpointsBySessionId?.[sessionId] ?? [];
+      const removed = checkpoints.splice(index);
+
+      state.checkpointsBySessionId = {
+        ...state.checkpointsBySessionId,
+        [sessionId]: checkpoints,
+      };
+
+      return removed;
+    });
+  }
+
   async setSessionChannelId(
     sessionId: string,
     channelId: string | undefined,
@@ -137,6 +229,10 @@ export class SessionStore {
         throw new Error(`Session ${sessionId} does not exist.`);
       }
 
+      if (session.codexThreadId !== codexThreadId) {
+        delete session.codexRolloutPath;
+      }
+
       if (codexThreadId) {
         session.codexThreadId = codexThreadId;
       } else {
@@ -147,6 +243,108 @@ export class SessionStore {
     });
   }
 
+  // Sessions deleted while a turn was starting are ignored.
+  async recordSessionActivity(sessionId: string, at: Date = new Date()): Promise<void> {
+    await this.withMutation(async (state) => {
+      const session = state.sessions.find((candidate) => candidate.id === sessionId);
+
+      if (session) {
+        session.lastActiveAt = at.toISOString();
+      }
+    });
+  }
+
+  async setSessionAutoCompactThreshold(
+    sessionId: string,
+    threshold: number | undefined,
+  ): Promise<SessionRecord> {
+    return this.withMutation(async (state) => {
+      const session = state.sessions.find((candidate) => candidate.id === sessionId);
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} does not exist.`);
+      }
+
+      if (typeof threshold === "number") {
+        session.autoCompactThreshold = threshold;
+      } else {
+        delete session.autoCompactThreshold;
+      }
+
+      return session;
+    });
+  }
+
+  async setSessionCodexRolloutPath(
+    sessionId: string,
+    codexRolloutPath: string | undefined,
+  ): Promise<SessionRecord> {
+    return this.withMutation(async (state) => {
+      const session = state.sessions.find((candidate) => candidate.id === sessionId);
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} does not exist.`);
+      }
+
+      if (codexRolloutPath) {
+        session.codexRolloutPath = codexRolloutPath;
+      } else {
+        delete session.codexRolloutPath;
+      }
+
+      return session;
+    });
+  }
+
+  async setSessionModel(
+    sessionId: string,
+    model: string | undefined,
+    reasoningEffort: ReasoningEffort | undefined,
+  ): Promise<SessionRecord> {
+    return this.withMutation(async (state) => {
+      const session = state.sessions.find((candidate) => candidate.id === sessionId);
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} does not exist.`);
+      }
+
+      if (model) {
+        session.model = model;
+      } else {
+        delete session.model;
+      }
+
+      if (reasoningEffort) {
+        session.reasoningEffort = reasoningEffort;
+      } else {
+        delete session.reasoningEffort;
+      }
+
+      return session;
+    });
+  }
+
+  async setSessionSandbox(
+    sessionId: string,
+    sandboxMode: SandboxMode | undefined,
+  ): Promise<SessionRecord> {
+    return this.withMutation(async (state) => {
+      const session = state.sessions.find((candidate) => candidate.id === sessionId);
+
+      if (!session) {
+        throw new Error(`Session ${sessionId} does not exist.`);
+      }
+
+      if (sandboxMode) {
+        session.sandboxMode = sandboxMode;
+      } else {
+        delete session.sandboxMode;
+      }
+
+      return session;
+    });
+  }
+
   private async withMutation<T>(
     mutate: (state: SessionState) => Promise<T>,
   ): Promise<T> {
@@ -202,7 +400,7 @@ function normalizeState(candidate: unknown): SessionState {
 
   const state = candidate as SessionState;
   const safeSessions = Array.isArray(state.sessions)
-    ? state.sessions.filter(isSessionRecord)
+    ? state.sessions.filter(isSessionRecord).map(stripUnknownSettings)
     : [];
 
   const safeFocusedSessionByUserId: Record<string, string> = {};
@@ -220,12 +418,82 @@ function normalizeState(candidate: unknown): SessionState {
     }
   }
 
+  const safeRateLimitsByBackend: Record<string, RateLimitRecord> = {};
+
+  if (state.rateLimitsByBackend && typeof state.rateLimitsByBackend === "object") {
+    for (const [backend, record] of Object.entries(state.rateLimitsByBackend)) {
+      if (isRateLimitRecord(record)) {
+        safeRateLimitsByBackend[backend] = record;
+      }
+    }
+  }
+
+  const safeCheckpointsBySessionId: Record<string, CheckpointRecord[]> = {};
+
+  if (state.checkpointsBySessionId && typeof state.checkpointsBySessionId === "object") {
+    for (const [sessionId, checkpoints] of Object.entries(state.checkpointsBySessionId)) {
+      if (Array.isArray(checkpoints)) {
+        safeCheckpointsBySessionId[sessionId] = checkpoints.filter(isCheckpointRecord);
+      }
+    }
+  }
+
   return {
     sessions: safeSessions,
     focusedSessionByUserId: safeFocusedSessionByUserId,
+    rateLimitsByBackend: safeRateLimitsByBackend,
+    checkpointsBySessionId: safeCheckpointsBySessionId,
   };
 }
 
+function isCheckpointRecord(candidate: unknown): candidate is CheckpointRecord {
+  if (!candidate || typeof candidate !== "object") {
+    return false;
+  }
+
+  const record = candidate as CheckpointRecord;
+
+  return (
+    typeof record.commit === "string" &&
+    typeof record.cwd === "string" &&
+    typeof record.prompt === "string" &&
+    typeof record.createdAt === "string"
+  );
+}
+
+function isRateLimitRecord(candidate: unknown): candidate is RateLimitRecord {
+  if (!candidate || typeof candidate !== "object") {
+    return false;
+  }
+
+  const record = candidate as RateLimitRecord;
+
+  return (
+    typeof record.recordedAt === "string" &&
+    Boolean(record.rateLimits) &&
+    typeof record.rateLimits === "object"
+  );
+}
+
+// A setting this version does not recognise falls back to its default instead of
+// costing the whole session.
+function stripUnknownSettings(session: SessionRecord): SessionRecord {
+  const stripped = { ...session };
+
+  if (
+    stripped.reasoningEffort !== undefined &&
+    !REASONING_EFFORTS.includes(stripped.reasoningEffort)
+  ) {
+    delete stripped.reasoningEffort;
+  }
+
+  if (stripped.sandboxMode !== undefined && !SANDBOX_MODES.includes(stripped.sandboxMode)) {
+    delete stripped.sandboxMode;
+  }
+
+  return stripped;
+}
+
 function isSessionRecord(candidate: unknown): candidate is SessionRecord {
   if (!candidate || typeof candidate !== "object") {
     return false;
@@ -239,9 +507,18 @@ function isSessionRecord(candidate: unknown): candidate is SessionRecord {
     typeof record.title === "string" &&
     typeof record.createdByUserId === "string" &&
     typeof record.createdAt === "string" &&
+    (typeof record.lastActiveAt === "undefined" ||
+      typeof record.lastActiveAt === "string") &&
+    (typeof record.agentBackend === "undefined" ||
+      typeof record.agentBackend === "string") &&
     (typeof record.channelId === "undefined" || typeof record.channelId === "string") &&
     (typeof record.codexThreadId === "undefined" ||
-      typeof record.codexThreadId === "string")
+      typeof record.codexThreadId === "string") &&
+    (typeof record.codexRolloutPath === "undefined" ||
+      typeof record.codexRolloutPath === "string") &&
+    (typeof record.model === "undefined" || typeof record.model === "string") &&
+    (typeof record.autoCompactThreshold === "undefined" ||
+      typeof record.autoCompactThreshold === "number")
   );
 }
 
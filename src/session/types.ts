@@ -1,20 +1,60 @@
+import type { AgentRateLimits } from "../agent/types.ts";
+
+export const REASONING_EFFORTS = ["minimal", "low", "medium", "high"] as const;
+
+export type ReasoningEffort = (typeof REASONING_EFFORTS)[number];
+
+export const SANDBOX_MODES = [
+  "read-only",
+  "workspace-write",
+  "danger-full-access",
+] as const;
+
+export type SandboxMode = (typeof SANDBOX_MODES)[number];
+
 export interface SessionRecord {
   id: string;
   projectPath: string;
   title: string;
   createdByUserId: string;
   createdAt: string;
+  // When a turn last started in this session.
+  lastActiveAt?: string;
+  agentBackend?: string;
   channelId?: string;
   codexThreadId?: string;
+  codexRolloutPath?: string;
+  model?: string;
+  reasoningEffort?: ReasoningEffort;
+  sandboxMode?: SandboxMode;
+  autoCompactThreshold?: number;
+}
+
+export interface RateLimitRecord {
+  recordedAt: string;
+  rateLimits: AgentRateLimits;
+}
+
+// A snapshot of the project's files taken right before `prompt` ran.
+export interface CheckpointRecord {
+  commit: string;
+  cwd: string;
+  prompt: string;
+  createdAt: string;
 }
 
 export interface SessionState {
   sessions: SessionRecord[];
   focusedSessionByUserId: Record<string, string>;
+  rateLimitsByBackend?: Record<string, RateLimitRecord>;
+  checkpointsBySessionId?: Record<string, CheckpointRecord[]>;
 }
 
 export interface CreateSessionInput {
   projectPath: string;
   title?: string;
   createdByUserId: string;
+  agentBackend?: string;
+  codexThreadId?: string;
+  codexRolloutPath?: string;
 }
@@ -0,0 +1,88 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+/**
+ * A JSONL file that is only ever appended to, one entry per line. Appends run one at a
+ * time so lines never interleave, and reads wait for the appends queued before them.
+ */
+export class JsonlFile<T> {
+  private readonly filePath: string;
+  private readonly isEntry: (value: unknown) => value is T;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, isEntry: (value: unknown) => value is T) {
+    this.filePath = filePath;
+    this.isEntry = isEntry;
+  }
+
+  async append(entry: T): Promise<void> {
+    const run = async (): Promise<void> => {
+      await mkdir(dirname(this.filePath), {
+        recursive: true,
+      });
+      await appendFile(this.filePath, `${JSON.stringify(entry)}\n`, "utf8");
+    };
+
+    const runPromise = this.queue.then(run, run);
+    this.queue = runPromise.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    return runPromise;
+  }
+
+  // Lines that are not valid entries are skipped; a missing file reads as empty.
+  async readEntries(): Promise<T[]> {
+    await this.queue;
+
+    let file: string;
+
+    try {
+      file = await readFile(this.filePath, "utf8");
+    } catch (error: unknown) {
+      if (isMissingFileError(error)) {
+        return [];
+      }
+
+      throw error;
+    }
+
+    const entries: T[] = [];
+
+    for (const line of file.split("\n")) {
+      const entry = this.parseLine(line);
+
+      if (entry !== undefined) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  private parseLine(line: string): T | undefined {
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      return undefined;
+    }
+
+    try {
+      const value: unknown = JSON.parse(trimmed);
+      return this.isEntry(value) ? value : undefined;
+    } catch {
+      // Skip a line cut short by a crash mid-write.
+      return undefined;
+    }
+  }
+}
+
+function isMissingFileError(error: unknown): error is NodeJS.ErrnoException {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    (error as NodeJS.ErrnoException).code === "ENOENT"
+  );
+}
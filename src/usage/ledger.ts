@@ -0,0 +1,105 @@
+import type { AgentTokenUsage } from "../agent/types.ts";
+import { JsonlFile } from "../storage/jsonl-file.ts";
+
+export interface UsageEntry extends AgentTokenUsage {
+  recordedAt: string;
+  sessionId: string;
+  projectPath: string;
+  userId?: string;
+  backend: string;
+  model?: string;
+}
+
+export interface UsageTotals extends AgentTokenUsage {
+  turns: number;
+}
+
+export interface UsageGroup {
+  key: string;
+  totals: UsageTotals;
+}
+
+/**
+ * Append-only JSONL log of token usage, one line per finished turn. Reads scan the whole
+ * file, which stays cheap at one short line per turn.
+ */
+export class UsageLedger {
+  private readonly file: JsonlFile<UsageEntry>;
+
+  constructor(filePath: string) {
+    this.file = new JsonlFile(filePath, isUsageEntry);
+  }
+
+  async append(entry: UsageEntry): Promise<void> {
+    await this.file.append(entry);
+  }
+
+  async readEntries(sinceMs?: number): Promise<UsageEntry[]> {
+    const entries = await this.file.readEntries();
+
+    return entries.filter(
+      (entry) => typeof sinceMs !== "number" || Date.parse(entry.recordedAt) >= sinceMs,
+    );
+  }
+}
+
+export function sumUsage(entries: readonly UsageEntry[]): UsageTotals {
+  const totals: UsageTotals = {
+    turns: 0,
+    inputTokens: 0,
+    cachedInputTokens: 0,
+    outputTokens: 0,
+    reasoningOutputTokens: 0,
+    totalTokens: 0,
+  };
+
+  for (const entry of entries) {
+    totals.turns += 1;
+    totals.inputTokens += entry.inputTokens;
+    totals.cachedInputTokens += entry.cachedInputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.reasoningOutputTokens += entry.reasoningOutputTokens;
+    totals.totalTokens += entry.totalTokens;
+  }
+
+  return totals;
+}
+
+export function groupUsage(
+  entries: readonly UsageEntry[],
+  keyOf: (entry: UsageEntry) => string | undefined,
+): UsageGroup[] {
+  const entriesByKey = new Map<string, UsageEntry[]>();
+
+  for (const entry of entries) {
+    const key = keyOf(entry);
+
+    if (!key) {
+      continue;
+    }
+
+    const group = entriesByKey.get(key) ?? [];
+    group.push(entry);
+    entriesByKey.set(key, group);
+  }
+
+  return [...entriesByKey.entries()]
+    .map(([key, group]) => ({ key, totals: sumUsage(group) }))
+    .sort((a, b) => b.totals.totalTokens - a.totals.totalTokens);
+}
+
+function isUsageEntry(value: unknown): value is UsageEntry {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const entry = value as UsageEntry;
+
+  return (
+    typeof entry.recordedAt === "string" &&
+    typeof entry.sessionId === "string" &&
+    typeof entry.projectPath === "string" &&
+    typeof entry.backend === "string" &&
+    typeof entry.totalTokens === "number"
+  );
+}